@@ -0,0 +1,123 @@
+import * as path from "path";
+
+export type AttachmentKind = "image" | "video" | "audio" | "pdf" | "file";
+export type SizedImageStyle = "html" | "figure";
+
+export interface AttachmentOptions {
+  // 带尺寸的图片输出为 <img> 还是 figure 短代码
+  sizedImageStyle: SizedImageStyle;
+  // PDF 嵌入使用的短代码名称，留空则输出下载链接
+  pdfShortcode: string;
+}
+
+export interface EmbedAttributes {
+  alt: string;
+  width?: string;
+  height?: string;
+}
+
+const KIND_EXTENSIONS: Record<Exclude<AttachmentKind, "file">, string[]> = {
+  image: ["png", "jpg", "jpeg", "gif", "webp", "svg", "avif", "bmp"],
+  video: ["mp4", "webm", "ogv", "mov", "mkv"],
+  audio: ["mp3", "wav", "m4a", "ogg", "flac", "aac", "3gp"],
+  pdf: ["pdf"],
+};
+
+export function attachmentKind(filePath: string): AttachmentKind {
+  const ext = path.extname(filePath).slice(1).toLowerCase();
+  for (const [kind, extensions] of Object.entries(KIND_EXTENSIONS)) {
+    if (extensions.includes(ext)) {
+      return kind as AttachmentKind;
+    }
+  }
+  return "file";
+}
+
+// Hugo 中存放附件的子目录：图片放在 images，其他附件放在 files
+export function attachmentDir(kind: AttachmentKind): string {
+  return kind === "image" ? "images" : "files";
+}
+
+/**
+ * Parse Obsidian size hints: `300` (width) or `300x200` (width x height).
+ */
+export function parseSizeHint(
+  hint: string
+): { width: string; height?: string } | undefined {
+  const match = hint.trim().match(/^(\d+)(?:x(\d+))?$/);
+  if (!match) {
+    return undefined;
+  }
+  return { width: match[1], height: match[2] };
+}
+
+/**
+ * Split an embed's alias part into alt text and size hint, e.g.
+ * `caption|300`, `300x200` or `caption`.
+ */
+export function parseEmbedAlias(
+  alias: string | undefined,
+  fallbackAlt: string
+): EmbedAttributes {
+  if (!alias) {
+    return { alt: fallbackAlt };
+  }
+  const parts = alias.split("|");
+  const size = parseSizeHint(parts[parts.length - 1]);
+  if (size) {
+    parts.pop();
+  }
+  return {
+    alt: parts.join("|").trim() || fallbackAlt,
+    width: size?.width,
+    height: size?.height,
+  };
+}
+
+/**
+ * Render an embedded attachment for Hugo: markdown images, <img>/figure for
+ * sized images, <video>/<audio> tags, a PDF shortcode or a download link.
+ */
+export function renderEmbed(
+  kind: AttachmentKind,
+  url: string,
+  attributes: EmbedAttributes,
+  options: AttachmentOptions
+): string {
+  const sizeAttributes =
+    (attributes.width ? ` width="${attributes.width}"` : "") +
+    (attributes.height ? ` height="${attributes.height}"` : "");
+
+  switch (kind) {
+    case "image":
+      if (!sizeAttributes) {
+        return `![${attributes.alt}](${url})`;
+      }
+      return options.sizedImageStyle === "figure"
+        ? `{{< figure src="${url}" alt="${escapeAttribute(
+            attributes.alt
+          )}"${sizeAttributes} >}}`
+        : `<img src="${url}" alt="${escapeAttribute(
+            attributes.alt
+          )}"${sizeAttributes}>`;
+    case "video":
+      return `<video controls src="${url}"${sizeAttributes}></video>`;
+    case "audio":
+      return `<audio controls src="${url}"></audio>`;
+    case "pdf":
+      if (options.pdfShortcode) {
+        return `{{< ${options.pdfShortcode} url="${url}" >}}`;
+      }
+      return renderDownloadLink(url, attributes.alt);
+    default:
+      return renderDownloadLink(url, attributes.alt);
+  }
+}
+
+export function renderDownloadLink(url: string, text: string): string {
+  return `[${text}](${url})`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+}
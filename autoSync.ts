@@ -0,0 +1,187 @@
+import { debounce, Debouncer, Notice, TAbstractFile, TFile } from "obsidian";
+import type HugoSyncPlugin from "./main";
+import {
+  failedSyncResult,
+  FileSyncResult,
+  fileSyncResult,
+} from "./syncHistory";
+
+type AutoSyncState = "idle" | "pending" | "syncing" | "error";
+
+/**
+ * Watch mode: re-sync published notes after they are modified, and remove
+ * their output when they are deleted. Only notes matching the publish rules
+ * are ever touched.
+ */
+export class AutoSync {
+  private pending: Set<string> = new Set();
+  private syncing = false;
+  private errorCount = 0;
+  private statusBarEl: HTMLElement;
+  private scheduleFlush: Debouncer<[]>;
+
+  constructor(private plugin: HugoSyncPlugin) {
+    this.statusBarEl = plugin.addStatusBarItem();
+    this.refresh();
+
+    plugin.registerEvent(
+      plugin.app.vault.on("modify", (file) => this.onModify(file))
+    );
+    plugin.registerEvent(
+      plugin.app.vault.on("rename", (file) => this.onModify(file))
+    );
+    plugin.registerEvent(
+      plugin.app.vault.on("delete", (file) => this.onDelete(file))
+    );
+  }
+
+  // 配置变化后重新创建防抖函数并刷新状态栏，等待中的修改按新的延迟同步
+  refresh() {
+    this.scheduleFlush?.cancel();
+    this.scheduleFlush = debounce(
+      () => this.flush(),
+      this.plugin.settings.watchDelay * 1000,
+      true
+    );
+    if (!this.plugin.settings.watchMode) {
+      this.pending.clear();
+    } else if (this.pending.size > 0) {
+      this.scheduleFlush();
+    }
+    this.updateStatus();
+  }
+
+  private onModify(file: TAbstractFile) {
+    if (
+      !this.plugin.settings.watchMode ||
+      !(file instanceof TFile) ||
+      file.extension !== "md"
+    ) {
+      return;
+    }
+    // 发布规则在防抖结束后再判断，此时 metadataCache 已经更新
+    this.pending.add(file.path);
+    this.updateStatus();
+    this.scheduleFlush();
+  }
+
+  private async onDelete(file: TAbstractFile) {
+    if (
+      !this.plugin.settings.watchMode ||
+      !this.plugin.syncManifest.get(file.path)
+    ) {
+      return;
+    }
+    this.pending.delete(file.path);
+    const changeStart = this.plugin.converter.changes.length;
+    this.plugin.converter.removeSyncedOutput(file.path);
+    await this.plugin.syncManifest.save();
+    await this.runHooks(changeStart);
+    this.updateStatus();
+  }
+
+  private async flush() {
+    if (this.syncing) {
+      // 正在同步时收到的修改，等本轮结束后再处理
+      return;
+    }
+    this.syncing = true;
+    this.errorCount = 0;
+    this.updateStatus();
+    try {
+      await this.syncPending();
+    } catch (error) {
+      // 保存清单、记录历史或运行钩子失败时同样显示错误状态
+      this.errorCount++;
+      console.error("Error auto-syncing:", error);
+    } finally {
+      this.syncing = false;
+      // 本轮同步期间收到的修改，在本轮结束后再同步
+      if (this.pending.size > 0) {
+        this.scheduleFlush();
+      }
+      this.updateStatus();
+    }
+  }
+
+  private async syncPending() {
+    const changeStart = this.plugin.converter.changes.length;
+    const secretWarnings: string[] = [];
+    const results: FileSyncResult[] = [];
+    const time = new Date().toISOString();
+
+    while (this.pending.size > 0) {
+      const paths = Array.from(this.pending);
+      this.pending.clear();
+      for (const filePath of paths) {
+        const file = this.plugin.app.vault.getAbstractFileByPath(filePath);
+        if (!(file instanceof TFile)) {
+          continue;
+        }
+        try {
+          if (!this.plugin.converter.isPublishableFile(file)) {
+            continue;
+          }
+          const prepared = await this.plugin.converter.syncFileToHugo(file);
+          results.push(fileSyncResult(prepared));
+          if (prepared.secrets.length > 0) {
+            secretWarnings.push(`${file.name}: ${prepared.secrets.join(", ")}`);
+          }
+        } catch (error) {
+          this.errorCount++;
+          results.push(failedSyncResult(file.path, error));
+          console.error(`Error auto-syncing file ${file.name}:`, error);
+        }
+      }
+    }
+    await this.plugin.syncManifest.save();
+    await this.plugin.syncHistory.add({ time, trigger: "watch", results });
+    if (secretWarnings.length > 0) {
+      new Notice(
+        `${this.plugin.lang.notices.secretWarning}:\n${secretWarnings.join(
+          "\n"
+        )}`,
+        10000
+      );
+    }
+    await this.runHooks(changeStart);
+  }
+
+  // 运行本批改动的同步后钩子，失败时提示
+  private async runHooks(changeStart: number) {
+    const failures = await this.plugin.runPostSyncHooks(
+      this.plugin.converter.changes.slice(changeStart)
+    );
+    if (failures.length > 0) {
+      new Notice(failures.join("\n\n"), 10000);
+    }
+  }
+
+  private updateStatus() {
+    const strings = this.plugin.lang.notices;
+    if (!this.plugin.settings.watchMode) {
+      this.statusBarEl.empty();
+      return;
+    }
+
+    let state: AutoSyncState = "idle";
+    if (this.syncing) {
+      state = "syncing";
+    } else if (this.pending.size > 0) {
+      state = "pending";
+    } else if (this.errorCount > 0) {
+      state = "error";
+    }
+
+    const text = {
+      idle: strings.watchIdle,
+      pending: strings.watchPending.replace(
+        "{0}",
+        this.pending.size.toString()
+      ),
+      syncing: strings.watchSyncing,
+      error: strings.watchError.replace("{0}", this.errorCount.toString()),
+    }[state];
+    this.statusBarEl.setText(text);
+  }
+}
@@ -0,0 +1,234 @@
+export type CalloutPreset =
+  | "admonition"
+  | "hextra"
+  | "docsy"
+  | "details"
+  | "custom"
+  | "none";
+
+export interface CalloutOptions {
+  calloutPreset: CalloutPreset;
+  // custom 预设使用的模板
+  calloutTemplate: string;
+  // 按 callout 类型覆盖模板，例如 { warning: "..." }
+  calloutTemplates: Record<string, string>;
+  // 可折叠的 callout（[!type]+ / [!type]-）统一输出为 <details>
+  foldableAsDetails: boolean;
+}
+
+interface PresetDefinition {
+  template: string;
+  // 将 Obsidian 的 callout 类型映射为主题支持的类型
+  typeMap?: Record<string, string>;
+  defaultType?: string;
+}
+
+/**
+ * Templates receive `{type}`, `{title}`, `{content}`, `{open}` ("true" or
+ * "false") and `{openAttr}` (" open" or "") as variables.
+ */
+export const CALLOUT_PRESETS: Record<string, PresetDefinition> = {
+  // LoveIt / DoIt / FixIt 等主题的 admonition 短代码
+  admonition: {
+    template:
+      '{{< admonition type="{type}" title="{title}" open={open} >}}\n{content}\n{{< /admonition >}}',
+  },
+  hextra: {
+    template:
+      '{{< callout type="{type}" >}}\n**{title}**\n\n{content}\n{{< /callout >}}',
+    typeMap: {
+      note: "info",
+      info: "info",
+      tip: "info",
+      hint: "info",
+      abstract: "info",
+      summary: "info",
+      warning: "warning",
+      caution: "warning",
+      attention: "warning",
+      danger: "error",
+      error: "error",
+      failure: "error",
+      bug: "error",
+    },
+    defaultType: "default",
+  },
+  docsy: {
+    template:
+      '{{% alert title="{title}" color="{type}" %}}\n{content}\n{{% /alert %}}',
+    typeMap: {
+      note: "info",
+      info: "info",
+      tip: "success",
+      success: "success",
+      warning: "warning",
+      caution: "warning",
+      danger: "danger",
+      error: "danger",
+      failure: "danger",
+      bug: "danger",
+    },
+    defaultType: "primary",
+  },
+  details: {
+    template:
+      "<details{openAttr}>\n<summary>{title}</summary>\n\n{content}\n\n</details>",
+  },
+};
+
+// 前缀（缩进或列表标记）、引用符号、类型、折叠标记和标题
+const calloutRegex =
+  /^(\s*(?:[-*+]\s+|\d+[.)]\s+)?)>\s?\[!([^\]\s]+)\]([+-]?)\s*(.*)$/;
+const blockquoteRegex = /^(\s*(?:[-*+]\s+|\d+[.)]\s+)?)>/;
+const fenceRegex = /^\s*(```|~~~)/;
+
+/**
+ * Convert Obsidian callouts (including foldable and nested ones, and
+ * callouts inside list items) into Hugo shortcodes or HTML.
+ */
+export function convertCallouts(
+  lines: string[],
+  options: CalloutOptions
+): string[] {
+  if (options.calloutPreset === "none") {
+    return lines;
+  }
+
+  const result: string[] = [];
+  let fence: string | null = null;
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    // 代码块中的内容保持原样
+    const fenceMatch = line.match(fenceRegex);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+    }
+    const quoteMatch = fence ? null : line.match(blockquoteRegex);
+    if (!quoteMatch) {
+      result.push(line);
+      i++;
+      continue;
+    }
+
+    // 收集整个引用块：首行之后以相同缩进和 > 开头的行
+    const prefix = quoteMatch[1];
+    const continuation = " ".repeat(prefix.length);
+    const inner = [stripQuote(line.slice(prefix.length))];
+    let j = i + 1;
+    while (j < lines.length && lines[j].startsWith(continuation)) {
+      const rest = lines[j].slice(continuation.length);
+      if (!/^\s*>/.test(rest)) {
+        break;
+      }
+      inner.push(stripQuote(rest.trimStart()));
+      j++;
+    }
+
+    const calloutMatch = line.match(calloutRegex);
+    let rendered: string[];
+    if (calloutMatch) {
+      const [, , type, fold, title] = calloutMatch;
+      rendered = renderCallout(
+        type.toLowerCase(),
+        fold,
+        title.trim(),
+        convertCallouts(inner.slice(1), options),
+        options
+      );
+    } else if (inner.some((innerLine) => innerLine.includes("[!"))) {
+      // 普通引用块中嵌套了 callout
+      rendered = convertCallouts(inner, options).map((innerLine) =>
+        innerLine ? "> " + innerLine : ">"
+      );
+    } else {
+      rendered = lines
+        .slice(i, j)
+        .map((raw, index) =>
+          index === 0
+            ? raw.slice(prefix.length)
+            : raw.slice(continuation.length)
+        );
+    }
+
+    rendered.forEach((renderedLine, index) => {
+      if (index === 0) {
+        result.push(prefix + renderedLine);
+      } else {
+        result.push(renderedLine ? continuation + renderedLine : "");
+      }
+    });
+    i = j;
+  }
+  return result;
+}
+
+function renderCallout(
+  type: string,
+  fold: string,
+  title: string,
+  content: string[],
+  options: CalloutOptions
+): string[] {
+  const preset = CALLOUT_PRESETS[options.calloutPreset];
+  let template =
+    options.calloutPreset === "custom"
+      ? options.calloutTemplate
+      : preset?.template || CALLOUT_PRESETS.admonition.template;
+  let mappedType = type;
+  if (preset && options.calloutPreset !== "custom" && preset.typeMap) {
+    mappedType = preset.typeMap[type] || preset.defaultType || type;
+  }
+
+  if (fold && options.foldableAsDetails) {
+    template = CALLOUT_PRESETS.details.template;
+  }
+  if (options.calloutTemplates[type]) {
+    template = options.calloutTemplates[type];
+  }
+
+  // 没有标题时与 Obsidian 一致，使用首字母大写的类型名
+  const displayTitle = title || type.charAt(0).toUpperCase() + type.slice(1);
+  const variables: Record<string, string> = {
+    type: mappedType,
+    title: displayTitle.replace(/"/g, "&quot;"),
+    content: content.join("\n").replace(/^\n+|\n+$/g, ""),
+    open: fold === "-" ? "false" : "true",
+    openAttr: fold === "-" ? "" : " open",
+  };
+  return template
+    .replace(/\\n/g, "\n")
+    .replace(
+      /\{(type|title|content|open|openAttr)\}/g,
+      (_, key) => variables[key]
+    )
+    .split("\n");
+}
+
+function stripQuote(line: string): string {
+  return line.replace(/^>\s?/, "");
+}
+
+/**
+ * Parse the "type: template" lines used by the settings text area.
+ */
+export function parseCalloutTemplates(value: string): Record<string, string> {
+  const templates: Record<string, string> = {};
+  for (const line of value.split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator <= 0) {
+      continue;
+    }
+    const type = line.slice(0, separator).trim().toLowerCase();
+    const template = line.slice(separator + 1).trim();
+    if (type && template) {
+      templates[type] = template;
+    }
+  }
+  return templates;
+}
@@ -0,0 +1,239 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ConverterSettings,
+  DEFAULT_CONVERTER_SETTINGS,
+  HugoConverter,
+  normalizeSettings,
+  OutputChange,
+} from "./converter";
+import {
+  buildCommitMessage,
+  changedPaths,
+  GitRepository,
+  processRunner,
+} from "./gitSync";
+import { runPostSyncHooks } from "./hooks";
+import { NodeVault } from "./nodeVault";
+import { SyncManifest } from "./syncManifest";
+
+const PLUGIN_DIR = ".obsidian/plugins/hugo-sync-plus";
+
+const USAGE = `Usage: hugo-sync <vault> [folder] [options]
+
+Convert the publishable notes of an Obsidian vault (or of one folder in it)
+into the Hugo sites configured for the Hugo Sync plugin.
+
+Options:
+  --config <file>    plugin settings, default <vault>/${PLUGIN_DIR}/data.json
+  --hugo <dir>       Hugo project of the default site, overrides the settings
+  --manifest <file>  sync manifest, default sync-manifest.json next to the settings
+  --commit           commit the changed files in the git repository of each site
+  --push             commit and push to the git remote configured for the site
+  --hooks            run the post-sync hooks of each site, fail if one fails
+  -h, --help         show this help`;
+
+interface CliOptions {
+  vault: string;
+  folder: string;
+  config?: string;
+  hugo?: string;
+  manifest?: string;
+  commit?: boolean;
+  push?: boolean;
+  hooks?: boolean;
+}
+
+function parseArgs(args: string[]): CliOptions | undefined {
+  const positional: string[] = [];
+  const options: Partial<CliOptions> = {};
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "-h" || arg === "--help") {
+      return undefined;
+    }
+    if (arg === "--commit" || arg === "--push") {
+      options.commit = true;
+      options.push = options.push || arg === "--push";
+      continue;
+    }
+    if (arg === "--hooks") {
+      options.hooks = true;
+      continue;
+    }
+    const match = arg.match(/^--(config|hugo|manifest)(?:=(.*))?$/);
+    if (match) {
+      const value = match[2] ?? args[++i];
+      if (!value) {
+        throw new Error(`Missing value for --${match[1]}`);
+      }
+      options[match[1] as "config" | "hugo" | "manifest"] = value;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+  if (positional.length === 0 || positional.length > 2) {
+    return undefined;
+  }
+  return {
+    ...options,
+    vault: path.resolve(positional[0]),
+    folder: (positional[1] || "").replace(/^\/+|\/+$/g, ""),
+  };
+}
+
+function loadSettings(
+  configPath: string,
+  options: CliOptions
+): ConverterSettings {
+  const data = fs.existsSync(configPath)
+    ? JSON.parse(fs.readFileSync(configPath, "utf8"))
+    : {};
+  const settings = normalizeSettings(DEFAULT_CONVERTER_SETTINGS, data);
+  if (options.hugo) {
+    settings.sites[0].hugoPath = options.hugo;
+  }
+  for (const site of settings.sites) {
+    if (!site.hugoPath) {
+      throw new Error(`Hugo path of site "${site.name}" is not set`);
+    }
+    site.hugoPath = path.resolve(site.hugoPath);
+  }
+  // 图片缩放和 WebP 转换依赖 Obsidian 中的 canvas，Node 中直接拷贝原图
+  if (settings.imageMaxWidth > 0 || settings.convertToWebp) {
+    console.warn(
+      "Image resizing and WebP conversion are not available outside Obsidian; copying images as they are."
+    );
+    settings.imageMaxWidth = 0;
+    settings.convertToWebp = false;
+  }
+  return settings;
+}
+
+async function main(args: string[]): Promise<number> {
+  const options = parseArgs(args);
+  if (!options) {
+    console.log(USAGE);
+    return args.length === 0 ? 1 : 0;
+  }
+  // 默认与插件共用设置和同步清单，首次发布时间和 slug 保持一致
+  const configPath = path.resolve(
+    options.config || path.join(options.vault, PLUGIN_DIR, "data.json")
+  );
+  const settings = loadSettings(configPath, options);
+  const manifestPath = path.resolve(
+    options.manifest ||
+      path.join(path.dirname(configPath), "sync-manifest.json")
+  );
+
+  const syncManifest = new SyncManifest(
+    {
+      exists: async (filePath) => fs.existsSync(filePath),
+      read: async (filePath) => fs.readFileSync(filePath, "utf8"),
+      write: async (filePath, data) => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, data);
+      },
+    },
+    manifestPath
+  );
+  await syncManifest.load();
+
+  const vault = new NodeVault(options.vault);
+  const converter = new HugoConverter(
+    settings,
+    vault,
+    syncManifest,
+    path.join(path.dirname(manifestPath), "image-cache")
+  );
+  const files = vault
+    .getMarkdownFiles()
+    .filter(
+      (file) =>
+        (!options.folder || file.path.startsWith(options.folder + "/")) &&
+        converter.isPublishableFile(file)
+    );
+
+  const counts = { created: 0, updated: 0, skipped: 0, failed: 0 };
+  converter.syncBatch = new Set(files.map((file) => file.path));
+  for (const file of files) {
+    try {
+      const { status, secrets } = await converter.syncFileToHugo(file);
+      counts[status]++;
+      console.log(`${status.padEnd(8)} ${file.path}`);
+      if (secrets.length > 0) {
+        console.warn(
+          `warning  ${file.path} matches secret patterns: ${secrets.join(", ")}`
+        );
+      }
+    } catch (error) {
+      counts.failed++;
+      console.error(`failed   ${file.path}: ${error.message}`);
+    }
+  }
+  converter.syncBatch.clear();
+  await syncManifest.save();
+
+  console.log(
+    `${files.length} notes: ${counts.created} created, ${counts.updated} updated, ${counts.skipped} skipped, ${counts.failed} failed`
+  );
+  let hooksFailed = false;
+  if (options.hooks) {
+    const results = await runPostSyncHooks(
+      processRunner,
+      settings.sites,
+      converter.changes,
+      (result) => {
+        console.log(`$ ${result.command} (${result.site})`);
+        if (result.output) {
+          console.log(result.output);
+        }
+      }
+    );
+    hooksFailed = results.some((result) => result.code !== 0);
+  }
+  if (options.commit && !hooksFailed) {
+    await commitSites(settings, converter.changes, options.push ?? false);
+  }
+  return counts.failed > 0 || hooksFailed ? 1 : 0;
+}
+
+async function commitSites(
+  settings: ConverterSettings,
+  changes: OutputChange[],
+  push: boolean
+) {
+  for (const site of settings.sites) {
+    const siteChanges = changes.filter((change) => change.site === site.name);
+    if (siteChanges.length === 0) {
+      continue;
+    }
+    const repo = await GitRepository.open(processRunner, site.hugoPath);
+    if (!repo) {
+      throw new Error(`${site.hugoPath} is not in a git repository`);
+    }
+    const entries = await repo.status(changedPaths(siteChanges));
+    if (entries.length === 0) {
+      continue;
+    }
+    await repo.commit(entries, buildCommitMessage(siteChanges));
+    console.log(`committed ${entries.length} files in ${site.hugoPath}`);
+    if (push) {
+      if (!site.gitRemote) {
+        throw new Error(`No git remote configured for site "${site.name}"`);
+      }
+      await repo.push(site.gitRemote);
+      console.log(`pushed to ${site.gitRemote}`);
+    }
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error.message);
+    process.exit(1);
+  }
+);
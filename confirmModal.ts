@@ -0,0 +1,51 @@
+import { App, Modal, Setting } from "obsidian";
+
+export interface ConfirmModalOptions {
+  title: string;
+  message: string;
+  // 需要用户确认的条目，例如将被删除的文件
+  items: string[];
+  confirmText: string;
+  cancelText: string;
+  onConfirm: () => void | Promise<void>;
+}
+
+/**
+ * Modal listing the items an action will touch, with confirm/cancel buttons.
+ */
+export class ConfirmModal extends Modal {
+  constructor(app: App, private options: ConfirmModalOptions) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this;
+    titleEl.setText(this.options.title);
+    contentEl.createEl("p", { text: this.options.message });
+
+    const listEl = contentEl.createEl("ul", { cls: "hugo-sync-confirm-list" });
+    for (const item of this.options.items) {
+      listEl.createEl("li", { text: item });
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText(this.options.cancelText).onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(this.options.confirmText)
+          .setWarning()
+          .onClick(async () => {
+            this.close();
+            await this.options.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
@@ -0,0 +1,1311 @@
+import type { FileStats } from "obsidian";
+import * as fs from "fs";
+import * as path from "path";
+import { countWords, renderFrontMatterTemplate } from "./frontMatterTemplate";
+import {
+  hashContent,
+  SyncManifest,
+  SyncManifestEntry,
+  SyncStatus,
+} from "./syncManifest";
+import {
+  FrontMatter,
+  readList,
+  serializeFrontMatter,
+  splitFrontMatter,
+} from "./frontmatter";
+import { isPublishable, PublishRules } from "./publishRules";
+import { EmbedSource, expandEmbeds } from "./embeds";
+import {
+  AttachmentOptions,
+  attachmentDir,
+  attachmentKind,
+  parseEmbedAlias,
+  renderDownloadLink,
+  renderEmbed,
+} from "./attachments";
+import {
+  AttachmentNaming,
+  hashedName,
+  ImageProcessingOptions,
+  processedExtension,
+  processImage,
+  processingCacheKey,
+  shouldProcessImage,
+} from "./imagePipeline";
+import { CalloutOptions, convertCallouts } from "./callouts";
+import { cleanSlug, disambiguateSlug, makeSlug, SlugStrategy } from "./slugs";
+import {
+  createSiteProfile,
+  localizeRoute,
+  resolveRoute,
+  RoutingRule,
+  siteContentRoot,
+  SiteProfile,
+  SiteRoute,
+} from "./sites";
+import {
+  convertWikiLinks,
+  hugoUrlize,
+  WikiLinkOptions,
+  WikiLinkTarget,
+} from "./links";
+import {
+  MarkdownDocument,
+  parseMarkdown,
+  protect,
+  renderMarkdown,
+} from "./markdown";
+import { isExcludedTag, mapTaxonomies, TaxonomyOptions } from "./taxonomy";
+import {
+  findSecrets,
+  hasPrivateTag,
+  PrivacyOptions,
+  redact,
+  redactValue,
+  removePrivateBlocks,
+  stripComments,
+} from "./privacy";
+import {
+  convertBlockIds,
+  convertHighlights,
+  convertSameNoteLinks,
+  convertTaskStates,
+  ObsidianSyntaxOptions,
+} from "./obsidianSyntax";
+import {
+  buildDescription,
+  convertMoreMarker,
+  extractTags,
+  filterHeaders,
+  filterSections,
+  removeEmptyLines,
+  transformText,
+} from "./pipeline";
+
+export interface ConverterSettings
+  extends PublishRules,
+    WikiLinkOptions,
+    CalloutOptions,
+    AttachmentOptions,
+    ImageProcessingOptions,
+    TaxonomyOptions,
+    PrivacyOptions,
+    ObsidianSyntaxOptions {
+  // Hugo 站点配置，第一个为默认站点；routingRules 决定笔记发布到哪个站点和 section
+  sites: SiteProfile[];
+  routingRules: RoutingRule[];
+  // 页面包目录（或文件）名的生成方式，首次发布后记录在同步清单中保持不变
+  slugStrategy: SlugStrategy;
+  filteredHeaders: string[];
+  descriptionLines: number;
+  descriptionMaxLength: number;
+  // 嵌入笔记 ![[Note]] 的最大展开深度，0 表示不展开
+  embedDepth: number;
+  // 附件命名方式
+  attachmentNaming: AttachmentNaming;
+}
+
+export const DEFAULT_CONVERTER_SETTINGS: ConverterSettings = {
+  sites: [],
+  routingRules: [],
+  slugStrategy: "original",
+  filteredHeaders: [],
+  descriptionLines: 0,
+  descriptionMaxLength: 120,
+  linkStyle: "relref",
+  unpublishedLinks: "text",
+  convertBlockReferences: true,
+  publishFlag: "publish",
+  includeFolders: [],
+  excludeFolders: [],
+  requiredTags: [],
+  calloutPreset: "details",
+  calloutTemplate: "",
+  calloutTemplates: {},
+  foldableAsDetails: true,
+  embedDepth: 3,
+  sizedImageStyle: "html",
+  pdfShortcode: "",
+  attachmentNaming: "original",
+  imageMaxWidth: 0,
+  convertToWebp: false,
+  taxonomyRules: [],
+  tagAliases: {},
+  excludedTags: [],
+  lowercaseTags: false,
+  nestedTagMode: "keep",
+  keepInlineTags: false,
+  stripComments: true,
+  privateMarkers: true,
+  privateTag: "private",
+  redactions: [],
+  secretPatterns: [],
+  convertHighlights: true,
+  convertBlockIds: true,
+  convertSameNoteLinks: true,
+  convertTaskStates: true,
+};
+
+// 标准 Markdown 嵌入 ![alt](path "title") 或 Obsidian 的 ![[file|alias]]、[[file.pdf]]
+const attachmentRegex =
+  /!\[([^\]]*)\]\(\s*<?([^()\s<>]+)>?(?:\s+["'][^"']*["'])?\s*\)|(!?)\[\[([^\[\]|#]+\.[A-Za-z0-9]+)(?:\|([^\[\]]*))?\]\]/g;
+
+// 只用于控制发布和路由的 frontmatter 键，不写入 Hugo 输出；
+// translationKey 是 Hugo 自己的键，多语言站点中保留
+const CONTROL_KEYS = ["hugo_site", "section", "lang", "translationOf"];
+
+// 旧版本直接保存在顶层的站点配置，加载时迁移到 sites 中
+const LEGACY_SITE_KEYS: (keyof SiteProfile)[] = [
+  "hugoPath",
+  "contentPath",
+  "staticPath",
+  "imageToStatic",
+  "frontMatterFormat",
+  "frontMatterPreset",
+  "frontMatterTemplate",
+  "useFirstImageAsCover",
+  "authorName",
+];
+
+/**
+ * Fill in defaults for saved settings and migrate the single-site settings
+ * of older versions into a site profile.
+ */
+export function normalizeSettings<T extends ConverterSettings>(
+  defaults: T,
+  data: Record<string, unknown>
+): T {
+  const settings: T = Object.assign({}, defaults, data);
+  if (settings.sites.length === 0) {
+    settings.sites = [createSiteProfile("default", data)];
+  }
+  for (const key of LEGACY_SITE_KEYS) {
+    delete (settings as unknown as Record<string, unknown>)[key];
+  }
+  return settings;
+}
+
+// 仓库中的文件，Obsidian 的 TFile 满足这个接口
+export interface VaultFile {
+  path: string;
+  name: string;
+  basename: string;
+  extension: string;
+  stat: FileStats;
+}
+
+/**
+ * Everything the converter needs from a vault. The plugin implements it
+ * with the Obsidian API, the CLI by reading a vault folder from disk.
+ */
+export interface VaultResolver extends EmbedSource {
+  // 仓库根目录在磁盘上的绝对路径
+  getBasePath(): string;
+  getFile(filePath: string): VaultFile | undefined;
+  getMarkdownFiles(): VaultFile[];
+  getFrontMatter(file: VaultFile): FrontMatter | undefined;
+  // 笔记的全部标签（frontmatter 和正文），可以带有 #
+  getTags(file: VaultFile): string[];
+}
+
+export interface CopyImageItem {
+  originalPath: string;
+  newPath: string;
+  newName: string;
+  // 源文件内容哈希
+  hash: string;
+  // 是否需要缩放或转换为 WebP
+  process: boolean;
+}
+
+export interface PreparedOutput {
+  file: VaultFile;
+  status: SyncStatus;
+  hugoFilePath: string;
+  hugoContent: string;
+  imageList: CopyImageItem[];
+  // 输出中仍然匹配的 secretPatterns
+  secrets: string[];
+  // 写入后记录到同步清单中的条目
+  entry: SyncManifestEntry;
+}
+
+export type OutputChangeKind = "added" | "updated" | "removed";
+
+// 一次写入或删除的输出，用于在同步后提交 Hugo 仓库
+export interface OutputChange {
+  site: string;
+  kind: OutputChangeKind;
+  // 笔记标题，用于生成提交信息
+  title: string;
+  // 写入或删除的文件和目录，相对于站点的 hugoPath
+  paths: string[];
+}
+
+interface HugoDocument {
+  frontMatter: FrontMatter;
+  body: string;
+  imageList: CopyImageItem[];
+}
+
+/**
+ * Converts notes into Hugo pages and writes them, together with their
+ * attachments, into the configured sites. Independent of Obsidian so it
+ * can run in the plugin, the CLI and tests alike.
+ */
+export class HugoConverter {
+  // 当前批次中正在同步的笔记路径，用于判断 wikilink 目标是否会被发布
+  syncBatch: Set<string> = new Set();
+  // 上次提交以来写入或删除的输出，由调用方读取并清空
+  changes: OutputChange[] = [];
+
+  constructor(
+    public settings: ConverterSettings,
+    public vault: VaultResolver,
+    public syncManifest: SyncManifest,
+    // 缩放或转换后的图片缓存目录
+    private imageCacheDir: string
+  ) {}
+
+  isPublishableFile(file: VaultFile): boolean {
+    return isPublishable(
+      file.path,
+      this.vault.getFrontMatter(file),
+      this.vault.getTags(file),
+      this.settings
+    );
+  }
+
+  // 列出删除某篇笔记的输出时会移除的文件（相对于 Hugo 项目根目录）
+  getRemovablePaths(vaultPath: string, removing: string[] = []): string[] {
+    const entry = this.syncManifest.get(vaultPath);
+    if (!entry) {
+      return [];
+    }
+
+    const site = this.getSite(entry.site);
+    const removable = [entry.outputPath];
+    const bundleDir = this.getBundleDir(entry.outputPath);
+    // 同一页面包中还有其他语言的版本时只删除当前语言的文件
+    const ownsBundle =
+      bundleDir !== undefined &&
+      !this.isSharedBundle(bundleDir, site, vaultPath, removing);
+    for (const image of entry.images) {
+      if (ownsBundle && image.startsWith(bundleDir + "/")) {
+        continue;
+      }
+      // 同一站点中其他仍然保留的文章引用的图片不删除
+      const referenced = Object.entries(this.syncManifest.entries).some(
+        ([otherPath, other]) =>
+          otherPath !== vaultPath &&
+          !removing.includes(otherPath) &&
+          this.getSite(other.site) === site &&
+          other.images.includes(image)
+      );
+      if (!referenced) {
+        removable.push(image);
+      }
+    }
+    if (ownsBundle) {
+      removable[0] = bundleDir + "/";
+    }
+    return removable;
+  }
+
+  // 页面包是否还被其他笔记（同一篇文章的其他语言版本）使用
+  isSharedBundle(
+    bundleDir: string,
+    site: SiteProfile,
+    vaultPath: string,
+    removing: string[] = []
+  ): boolean {
+    return Object.entries(this.syncManifest.entries).some(
+      ([otherPath, other]) =>
+        otherPath !== vaultPath &&
+        !removing.includes(otherPath) &&
+        this.getSite(other.site) === site &&
+        this.getBundleDir(other.outputPath) === bundleDir
+    );
+  }
+
+  removeSyncedOutput(vaultPath: string) {
+    const site = this.getSite(this.syncManifest.get(vaultPath)?.site);
+    const removable = this.getRemovablePaths(vaultPath);
+    this.changes.push({
+      site: site.name,
+      kind: "removed",
+      title: path.posix.basename(vaultPath, ".md"),
+      paths: removable,
+    });
+    for (const relativePath of removable) {
+      fs.rmSync(path.join(site.hugoPath, relativePath), {
+        recursive: true,
+        force: true,
+      });
+    }
+    this.syncManifest.delete(vaultPath);
+  }
+
+  // 页面包模式下输出为 <name>/index.md（多语言时为 index.<lang>.md），返回其所在目录
+  getBundleDir(outputPath: string): string | undefined {
+    return /^index(\.[\w-]+)?\.md$/.test(path.posix.basename(outputPath))
+      ? path.posix.dirname(outputPath)
+      : undefined;
+  }
+
+  async syncFileToHugo(file: VaultFile): Promise<PreparedOutput> {
+    const prepared = await this.prepareHugoOutput(file);
+    if (prepared.status !== "skipped") {
+      await this.writeHugoOutput(prepared);
+    } else {
+      // 输出没有变化时不写入，只记录本次同步的时间
+      const entry = this.syncManifest.get(file.path);
+      if (entry) {
+        entry.lastSync = prepared.entry.lastSync;
+      }
+    }
+    return prepared;
+  }
+
+  // 生成笔记的 Hugo 输出但不写入磁盘，供同步和预览共用
+  async prepareHugoOutput(file: VaultFile): Promise<PreparedOutput> {
+    // 嵌入的笔记在转换前展开，与正文一起经过同样的转换流程
+    // 不发布的笔记不会通过嵌入出现在正文和描述中
+    const content = await expandEmbeds(
+      await this.vault.read(file.path),
+      file.path,
+      this.vault,
+      this.settings.embedDepth,
+      (filePath) => {
+        const target = this.vault.getFile(filePath);
+        return !!target && this.isPublishableFile(target);
+      }
+    );
+    const entry = this.syncManifest.get(file.path);
+    const route = this.getRoute(file);
+    const slug = this.getSlug(file, entry);
+    const now = new Date().toISOString();
+    // date 固定为首次发布的时间
+    const { frontMatter, body, imageList } = this.convertToHugoFormat(
+      content,
+      file.name,
+      file.path,
+      route,
+      slug,
+      entry ? entry.date : now,
+      file.stat
+    );
+
+    const hugoFilePath = this.getHugoFilePath(file, route, slug);
+    const outputPath = this.toHugoRelativePath(hugoFilePath, route.site);
+    const url = this.getPermalink(hugoFilePath, route.site, route.lang);
+
+    // 同一站点中 URL 发生变化（例如修改了 slug）时，旧 URL 作为 Hugo aliases 保留
+    let aliases = entry?.aliases;
+    if (entry && this.getSite(entry.site) === route.site && entry.url !== url) {
+      aliases = Array.from(new Set([...(aliases || []), entry.url])).filter(
+        (alias) => alias !== url
+      );
+    }
+    if (aliases?.length) {
+      const existing = frontMatter.aliases;
+      frontMatter.aliases = Array.from(
+        new Set([
+          ...(Array.isArray(existing) ? existing : existing ? [existing] : []),
+          ...aliases,
+        ])
+      );
+    }
+
+    // 哈希不包含 lastmod，只有转换结果本身变化时才重新写入
+    const hash = hashContent(
+      this.renderHugoFile(frontMatter, body, route.site) +
+        imageList
+          .map(
+            (image) =>
+              `${image.newPath}:${
+                image.process
+                  ? processingCacheKey(image.hash, this.settings)
+                  : image.hash
+              }`
+          )
+          .join("\n")
+    );
+    let status: SyncStatus = entry ? "updated" : "created";
+    if (
+      entry &&
+      entry.hash === hash &&
+      this.getSite(entry.site) === route.site &&
+      entry.outputPath === outputPath &&
+      fs.existsSync(hugoFilePath)
+    ) {
+      status = "skipped";
+    }
+
+    let lastmod = entry?.lastmod;
+    if (entry && entry.hash !== hash) {
+      lastmod = now;
+    }
+    if (lastmod && frontMatter.lastmod === undefined) {
+      frontMatter.lastmod = lastmod;
+    }
+
+    const hugoContent = this.renderHugoFile(frontMatter, body, route.site);
+    return {
+      file,
+      status,
+      hugoFilePath,
+      hugoContent,
+      imageList,
+      secrets: findSecrets(hugoContent, this.settings.secretPatterns),
+      entry: {
+        site: route.site.name,
+        outputPath,
+        hash,
+        date: entry ? entry.date : now,
+        lastSync: now,
+        lastmod,
+        url,
+        images: imageList.map((image) =>
+          this.toHugoRelativePath(image.newPath, route.site)
+        ),
+        imageHashes: Object.fromEntries(
+          imageList.map((image) => [
+            this.toHugoRelativePath(image.newPath, route.site),
+            image.hash,
+          ])
+        ),
+        aliases,
+        slug,
+      },
+    };
+  }
+
+  async writeHugoOutput(prepared: PreparedOutput) {
+    const site = this.getSite(prepared.entry.site);
+    const previous = this.syncManifest.get(prepared.file.path);
+    const previousSite = this.getSite(previous?.site);
+    const title = prepared.file.basename;
+    this.changes.push({
+      site: site.name,
+      kind: previous ? "updated" : "added",
+      title,
+      paths: [prepared.entry.outputPath, ...prepared.entry.images],
+    });
+    if (previous) {
+      this.changes.push({
+        site: previousSite.name,
+        kind: previousSite === site ? "updated" : "removed",
+        title,
+        paths: [previous.outputPath, ...previous.images],
+      });
+    }
+
+    // 路由变化（换了站点或 section）时移除旧位置的页面
+    if (
+      previous &&
+      (previousSite !== site ||
+        previous.outputPath !== prepared.entry.outputPath)
+    ) {
+      const bundleDir = this.getBundleDir(previous.outputPath);
+      fs.rmSync(
+        path.join(
+          previousSite.hugoPath,
+          bundleDir &&
+            !this.isSharedBundle(bundleDir, previousSite, prepared.file.path)
+            ? bundleDir
+            : previous.outputPath
+        ),
+        { recursive: true, force: true }
+      );
+    }
+
+    fs.mkdirSync(path.dirname(prepared.hugoFilePath), { recursive: true });
+    fs.writeFileSync(prepared.hugoFilePath, prepared.hugoContent);
+    await this.addImagesToHugo(prepared.imageList, prepared.file.name);
+
+    // 删除这篇笔记不再使用、也没有其他笔记引用的旧图片
+    for (const image of previous?.images || []) {
+      const referenced =
+        (previousSite === site && prepared.entry.images.includes(image)) ||
+        Object.entries(this.syncManifest.entries).some(
+          ([otherPath, other]) =>
+            otherPath !== prepared.file.path &&
+            this.getSite(other.site) === previousSite &&
+            other.images.includes(image)
+        );
+      if (!referenced) {
+        fs.rmSync(path.join(previousSite.hugoPath, image), { force: true });
+      }
+    }
+    this.syncManifest.set(prepared.file.path, prepared.entry);
+  }
+
+  renderHugoFile(
+    frontMatter: FrontMatter,
+    body: string,
+    site: SiteProfile
+  ): string {
+    return `${serializeFrontMatter(
+      frontMatter,
+      site.frontMatterFormat
+    )}\n${body}`;
+  }
+
+  // 按名称查找站点，旧版本清单中没有记录站点时使用默认站点；
+  // 名称不存在时报错，而不是把输出写到其他站点
+  getSite(name?: string): SiteProfile {
+    if (!name) {
+      return this.settings.sites[0];
+    }
+    const site = this.settings.sites.find((site) => site.name === name);
+    if (!site) {
+      throw new Error(`Unknown Hugo site "${name}"`);
+    }
+    return site;
+  }
+
+  // 根据路由规则和笔记的 frontmatter 决定发布到哪个站点和 section，
+  // 翻译版本沿用所在翻译组的站点和 section
+  getRoute(file: VaultFile): SiteRoute {
+    const anchor = this.getTranslationAnchor(file);
+    const route = resolveRoute(
+      anchor.path,
+      this.vault.getFrontMatter(anchor),
+      this.vault.getTags(anchor),
+      this.settings.sites,
+      this.settings.routingRules
+    );
+    return localizeRoute(route, this.getLanguage(file, route.site));
+  }
+
+  // 笔记的语言：frontmatter 中的 lang，没有时使用站点的默认语言
+  getLanguage(file: VaultFile, site: SiteProfile): string {
+    const lang = this.vault.getFrontMatter(file)?.lang;
+    return typeof lang === "string" && lang.trim()
+      ? lang.trim()
+      : site.defaultLanguage;
+  }
+
+  // 翻译组中决定页面包位置的笔记：translationOf 指向的笔记，或具有相同
+  // translationKey 的笔记中默认语言的那篇（没有则取路径最靠前的一篇）
+  getTranslationAnchor(file: VaultFile): VaultFile {
+    const frontMatter = this.vault.getFrontMatter(file);
+    const translationOf = frontMatter?.translationOf;
+    if (typeof translationOf === "string" && translationOf.trim()) {
+      const linkpath = translationOf
+        .trim()
+        .replace(/^\[\[|\]\]$/g, "")
+        .split(/[|#]/)[0];
+      const target = this.getLinkedFile(linkpath, file.path);
+      if (target && target.extension === "md") {
+        return target;
+      }
+    }
+
+    const translationKey = frontMatter?.translationKey;
+    if (typeof translationKey !== "string" || !translationKey.trim()) {
+      return file;
+    }
+    const group = this.vault
+      .getMarkdownFiles()
+      .filter(
+        (other) =>
+          this.vault.getFrontMatter(other)?.translationKey === translationKey
+      )
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const defaultLanguage = this.settings.sites[0].defaultLanguage;
+    return (
+      group.find((other) => {
+        const lang = this.vault.getFrontMatter(other)?.lang;
+        return !lang || lang === defaultLanguage;
+      }) ||
+      group[0] ||
+      file
+    );
+  }
+
+  // 笔记的 slug：frontmatter 中的 slug 优先，其次是同步清单中记录的 slug，
+  // 最后按配置的策略生成。记录后重命名笔记不会改变已发布的 URL
+  getSlug(file: VaultFile, entry = this.syncManifest.get(file.path)): string {
+    // 同一篇文章的各个语言版本共用一个 slug
+    const anchor = this.getTranslationAnchor(file);
+    if (anchor.path !== file.path) {
+      return this.getOwnSlug(anchor, this.syncManifest.get(anchor.path));
+    }
+    return this.getOwnSlug(file, entry);
+  }
+
+  getOwnSlug(file: VaultFile, entry: SyncManifestEntry | undefined): string {
+    const frontMatter = this.vault.getFrontMatter(file);
+    const override = frontMatter?.slug;
+    if (typeof override === "string" && cleanSlug(override)) {
+      return cleanSlug(override);
+    }
+    if (entry?.slug) {
+      return entry.slug;
+    }
+    if (entry) {
+      // 旧版本的清单没有记录 slug，沿用已发布的路径
+      const bundleDir = this.getBundleDir(entry.outputPath);
+      return bundleDir
+        ? path.posix.basename(bundleDir)
+        : path.posix.basename(entry.outputPath, ".md");
+    }
+    const date = frontMatter?.date;
+    const slug = makeSlug(
+      file.basename,
+      this.settings.slugStrategy,
+      date instanceof Date
+        ? date.toISOString()
+        : typeof date === "string" && /^\d{4}-\d{2}-\d{2}/.test(date)
+        ? date
+        : new Date().toISOString()
+    );
+    // 生成的 slug 已被同一站点和 section 中的其他笔记使用时（例如 kebab-case
+    // 去掉了中文），加上笔记路径的哈希，避免覆盖对方的页面
+    return this.isSlugTaken(file, slug)
+      ? disambiguateSlug(slug, file.path)
+      : slug;
+  }
+
+  // 同一位置已有其他笔记的输出；同一篇文章的翻译版本共用页面包，不算冲突
+  isSlugTaken(file: VaultFile, slug: string): boolean {
+    const route = this.getRoute(file);
+    const outputPath = this.toHugoRelativePath(
+      this.getHugoFilePath(file, route, slug),
+      route.site
+    );
+    const location = this.getBundleDir(outputPath) || outputPath;
+    return Object.keys(this.syncManifest.entries).some((otherPath) => {
+      const other = this.syncManifest.entries[otherPath];
+      const otherFile = this.vault.getFile(otherPath);
+      return (
+        otherPath !== file.path &&
+        this.getSite(other.site) === route.site &&
+        (this.getBundleDir(other.outputPath) || other.outputPath) ===
+          location &&
+        !(otherFile && this.getTranslationAnchor(otherFile).path === file.path)
+      );
+    });
+  }
+
+  // 附件在站点中的 URL：static 目录对应站点根目录，页面资源位于页面 URL 之下
+  getAttachmentSiteUrl(
+    newPath: string,
+    slug: string,
+    route: SiteRoute
+  ): string {
+    const { site } = route;
+    const bundleDir = path.join(site.hugoPath, route.contentPath, slug);
+    const base = site.imageToStatic
+      ? "/"
+      : this.getPermalink(path.join(bundleDir, "index.md"), site, route.lang);
+    const root = site.imageToStatic
+      ? path.join(site.hugoPath, site.staticPath)
+      : bundleDir;
+    return (
+      base +
+      path
+        .relative(root, newPath)
+        .replace(/\\/g, "/")
+        .split("/")
+        .map((part) => encodeURIComponent(part))
+        .join("/")
+    );
+  }
+
+  getHugoFilePath(
+    file: VaultFile,
+    route: SiteRoute = this.getRoute(file),
+    slug: string = this.getSlug(file)
+  ): string {
+    // 多语言 filename 模式下文件名带有语言后缀，例如 index.zh.md
+    const extension =
+      route.lang && route.site.multilingualMode === "filename"
+        ? `.${route.lang}.md`
+        : ".md";
+    if (route.site.imageToStatic) {
+      return path.join(
+        route.site.hugoPath,
+        route.contentPath,
+        slug + extension
+      );
+    }
+    // 为否的情况下以 slug 创建目录，笔记重命名为 index.md
+    return path.join(
+      route.site.hugoPath,
+      route.contentPath,
+      slug,
+      "index" + extension
+    );
+  }
+
+  // Hugo 的 content 根目录
+  getContentRoot(site: SiteProfile): string {
+    return path.join(site.hugoPath, siteContentRoot(site));
+  }
+
+  toHugoRelativePath(filePath: string, site: SiteProfile): string {
+    return path.relative(site.hugoPath, filePath).replace(/\\/g, "/");
+  }
+
+  // 相对于 content 目录（多语言 directory 模式下为语言目录）的路径，不含语言后缀
+  getContentPath(hugoFilePath: string, site: SiteProfile, lang?: string) {
+    const contentPath = path
+      .relative(this.getContentRoot(site), hugoFilePath)
+      .replace(/\\/g, "/");
+    if (!lang) {
+      return contentPath;
+    }
+    return site.multilingualMode === "directory"
+      ? contentPath.slice(contentPath.indexOf("/") + 1)
+      : contentPath.replace(/\.[\w-]+\.md$/, ".md");
+  }
+
+  // 按 Hugo 默认规则生成页面 URL，例如 /posts/my-note/，
+  // 非默认语言的页面带有语言前缀，例如 /zh/posts/my-note/
+  getPermalink(hugoFilePath: string, site: SiteProfile, lang?: string): string {
+    const contentPath = this.getContentPath(hugoFilePath, site, lang);
+    return (
+      (lang && lang !== site.defaultLanguage ? "/" + lang : "") +
+      "/" +
+      contentPath
+        .replace(/(\/index)?\.md$/, "")
+        .split("/")
+        .map((part) => hugoUrlize(part))
+        .join("/") +
+      "/"
+    );
+  }
+
+  resolveWikiLink(
+    linkpath: string,
+    sourcePath: string,
+    sourceRoute: SiteRoute
+  ): WikiLinkTarget | undefined {
+    // 找不到的笔记与未发布的笔记一样处理，不在输出中留下 [[Missing]]
+    const unresolved = { published: false, contentPath: "", permalink: "" };
+    const target = this.getLinkedFile(linkpath, sourcePath);
+    if (!target) {
+      return unresolved;
+    }
+    // 指向附件的链接留给 convertAttachments 处理
+    if (target.extension !== "md") {
+      return undefined;
+    }
+
+    let route: SiteRoute;
+    try {
+      route = this.getRoute(target);
+    } catch (error) {
+      return unresolved;
+    }
+    const hugoFilePath = this.getHugoFilePath(target, route);
+
+    return {
+      // 本批次中同步的、同步清单中已记录的或符合发布规则的笔记视为已发布，
+      // 发布到其他站点的笔记无法链接
+      published:
+        route.site === sourceRoute.site &&
+        (this.syncBatch.has(target.path) ||
+          this.syncManifest.get(target.path) !== undefined ||
+          this.isPublishableFile(target)),
+      contentPath: this.getContentPath(hugoFilePath, route.site, route.lang),
+      permalink: this.getPermalink(hugoFilePath, route.site, route.lang),
+      lang: route.lang !== sourceRoute.lang ? route.lang : undefined,
+    };
+  }
+
+  async addImagesToHugo(imageList: CopyImageItem[], fileName: string) {
+    // 此方法根据用户配置将图片拷贝到 hugo 的 content 文件夹中
+    // path 的差距已经在 convertToHugoFormat 中处理过了
+    // 此处只需要按顺序拷贝图片到对应的位置
+    for (const image of imageList) {
+      let sourcePath = image.originalPath;
+      let expectedHash = image.hash;
+      if (image.process) {
+        // 处理后的图片缓存在插件目录中，源文件和参数不变时直接复用
+        const key = processingCacheKey(image.hash, this.settings);
+        sourcePath = path.join(
+          this.imageCacheDir,
+          key + path.extname(image.newPath)
+        );
+        const cachedHash = this.syncManifest.imageCache[key];
+        if (cachedHash && fs.existsSync(sourcePath)) {
+          expectedHash = cachedHash;
+        } else {
+          const output = await processImage(
+            fs.readFileSync(image.originalPath),
+            image.originalPath,
+            this.settings
+          );
+          fs.mkdirSync(this.imageCacheDir, { recursive: true });
+          fs.writeFileSync(sourcePath, output);
+          expectedHash = hashContent(output);
+          this.syncManifest.imageCache[key] = expectedHash;
+        }
+      }
+
+      // 目标文件内容相同则跳过，内容不同说明图片已更新，覆盖旧的副本
+      if (
+        fs.existsSync(image.newPath) &&
+        hashContent(fs.readFileSync(image.newPath)) === expectedHash
+      ) {
+        continue;
+      }
+      // 确保目标目录存在
+      const targetDir = path.dirname(image.newPath);
+      if (!fs.existsSync(targetDir)) {
+        fs.mkdirSync(targetDir, { recursive: true });
+      }
+      // 复制文件
+      fs.copyFileSync(sourcePath, image.newPath);
+    }
+  }
+
+  // 按 Obsidian 的规则解析链接指向的文件
+  getLinkedFile(linkpath: string, sourcePath: string): VaultFile | undefined {
+    const filePath = this.vault.resolve(linkpath, sourcePath);
+    return filePath ? this.vault.getFile(filePath) : undefined;
+  }
+
+  // 同名附件已被其他笔记以不同内容使用时视为冲突
+  isAttachmentCollision(
+    newPath: string,
+    sourceHash: string,
+    notePath: string,
+    site: SiteProfile,
+    imagesToCopy: CopyImageItem[]
+  ): boolean {
+    if (
+      imagesToCopy.some(
+        (image) => image.newPath === newPath && image.hash !== sourceHash
+      )
+    ) {
+      return true;
+    }
+    const relativePath = this.toHugoRelativePath(newPath, site);
+    return Object.entries(this.syncManifest.entries).some(
+      ([otherPath, other]) =>
+        otherPath !== notePath &&
+        this.getSite(other.site) === site &&
+        other.imageHashes?.[relativePath] !== undefined &&
+        other.imageHashes[relativePath] !== sourceHash
+    );
+  }
+
+  // 转换一行中的附件嵌入（![[file]]、![](file)）以及指向附件的 [[file]] 链接。
+  // 两种语法在同一次替换中按出现顺序处理，imagesToCopy 的顺序与正文一致
+  convertAttachments(
+    line: string,
+    slug: string,
+    notePath: string,
+    route: SiteRoute,
+    imagesToCopy: CopyImageItem[]
+  ): string {
+    return line.replace(
+      attachmentRegex,
+      (
+        matchText,
+        alt: string | undefined,
+        linkPath: string | undefined,
+        embed: string,
+        wikiPath: string,
+        alias?: string
+      ) =>
+        linkPath !== undefined
+          ? this.convertMarkdownEmbed(
+              matchText,
+              alt || "",
+              linkPath,
+              slug,
+              notePath,
+              route,
+              imagesToCopy
+            )
+          : this.convertObsidianEmbed(
+              matchText,
+              embed,
+              wikiPath,
+              alias,
+              slug,
+              notePath,
+              route,
+              imagesToCopy
+            )
+    );
+  }
+
+  // 标准 Markdown 语法: ![alt](path "title")，alt 中可带尺寸 ![alt|300](path)
+  private convertMarkdownEmbed(
+    matchText: string,
+    alt: string,
+    linkPath: string,
+    slug: string,
+    notePath: string,
+    route: SiteRoute,
+    imagesToCopy: CopyImageItem[]
+  ): string {
+    if (/^[a-z]+:/i.test(linkPath) || !path.extname(linkPath)) {
+      return matchText;
+    }
+    let decodedPath = linkPath;
+    try {
+      decodedPath = decodeURI(linkPath);
+    } catch (error) {
+      // 保留无法解码的原始路径
+    }
+    const url = this.addAttachment(
+      decodedPath,
+      false,
+      slug,
+      notePath,
+      route,
+      imagesToCopy
+    );
+    if (!url) {
+      return matchText;
+    }
+
+    const kind = attachmentKind(decodedPath);
+    const attributes = parseEmbedAlias(alt, path.basename(decodedPath));
+    if (kind === "image" && !attributes.width) {
+      // 原本就是标准 Markdown 语法，只需替换路径
+      return matchText.replace(linkPath, url);
+    }
+    return renderEmbed(kind, url, attributes, this.settings);
+  }
+
+  // Obsidian 语法: ![[path]]、![[path|300]]、![[path|300x200]] 和 [[file.pdf]]
+  private convertObsidianEmbed(
+    matchText: string,
+    embed: string,
+    linkPath: string,
+    alias: string | undefined,
+    slug: string,
+    notePath: string,
+    route: SiteRoute,
+    imagesToCopy: CopyImageItem[]
+  ): string {
+    if (path.extname(linkPath).toLowerCase() === ".md") {
+      return matchText;
+    }
+    const url = this.addAttachment(
+      linkPath.trim(),
+      true,
+      slug,
+      notePath,
+      route,
+      imagesToCopy
+    );
+    if (!url) {
+      // 找不到的附件嵌入直接移除，避免输出中留下 ![[missing.png]]
+      return embed ? "" : matchText;
+    }
+
+    const name = path.basename(linkPath.trim());
+    const attributes = parseEmbedAlias(alias, name);
+    if (!embed) {
+      // 普通 [[file.pdf]] 链接转换为下载链接
+      return renderDownloadLink(url, attributes.alt);
+    }
+    return renderEmbed(
+      attachmentKind(linkPath),
+      url,
+      attributes,
+      this.settings
+    );
+  }
+
+  // 解析附件的原始路径并加入待拷贝列表，返回 Hugo 中使用的链接
+  addAttachment(
+    linkPath: string,
+    isObsidianLink: boolean,
+    slug: string,
+    notePath: string,
+    route: SiteRoute,
+    imagesToCopy: CopyImageItem[]
+  ): string | undefined {
+    const basePath = this.vault.getBasePath();
+    let originalPath: string | undefined;
+    // 处理不同类型的路径, 会有三种情况
+    if (isObsidianLink) {
+      // 是 Obsidian 链接格式，按 Obsidian 的规则解析，例如 Programming/attachments/test.png
+      const relativePath = this.vault.resolve(linkPath, notePath);
+      if (relativePath && !relativePath.endsWith(".md")) {
+        originalPath = path.join(basePath, relativePath);
+      }
+    } else if (path.isAbsolute(linkPath)) {
+      // 绝对路径（从 vault 根目录开始）
+      originalPath = path.join(basePath, linkPath);
+    } else {
+      // 相对路径（相对于正在同步的笔记，而不是当前打开的文件）
+      originalPath = path.join(basePath, path.dirname(notePath), linkPath);
+    }
+    // 检查附件文件是否存在
+    if (!originalPath || !fs.existsSync(originalPath)) {
+      return undefined;
+    }
+
+    const kind = attachmentKind(linkPath);
+    const dir = attachmentDir(kind);
+    const sourceHash = hashContent(fs.readFileSync(originalPath));
+    const process =
+      kind === "image" && shouldProcessImage(linkPath, this.settings);
+    const ext = path.extname(linkPath);
+    let newName =
+      path.basename(linkPath, ext) +
+      (process ? processedExtension(linkPath, this.settings) : ext);
+    if (this.settings.attachmentNaming === "hash") {
+      newName = hashedName(newName, sourceHash);
+    }
+
+    // 构建目标路径
+    const { site } = route;
+    const getNewPath = (name: string) =>
+      site.imageToStatic
+        ? path.join(site.hugoPath, site.staticPath, dir, name)
+        : // 和md源文件放到同一目录下(markdown
+          //  原名作为文件夹名字，附件放到同目录 images / files 目录下
+          //  原 markdown 重命名为 index.md
+          path.join(site.hugoPath, route.contentPath, slug, dir, name);
+    let newPath = getNewPath(newName);
+    // 同名但内容不同的附件改用内容哈希命名，避免互相覆盖
+    if (
+      this.settings.attachmentNaming === "original" &&
+      this.isAttachmentCollision(
+        newPath,
+        sourceHash,
+        notePath,
+        site,
+        imagesToCopy
+      )
+    ) {
+      newName = hashedName(newName, sourceHash);
+      newPath = getNewPath(newName);
+    }
+
+    // 添加到待拷贝列表
+    if (!imagesToCopy.some((image) => image.newPath === newPath)) {
+      imagesToCopy.push({
+        originalPath,
+        newPath,
+        newName,
+        hash: sourceHash,
+        process,
+      });
+    }
+
+    return path
+      .join(site.imageToStatic ? "/" + dir : "./" + dir, newName)
+      .replace(/\\/g, "/")
+      .split("/")
+      .map((part) => encodeURIComponent(part))
+      .join("/");
+  }
+
+  // 删除私有标记块、被过滤的标题和带私有标签的标题下的内容
+  removePrivateContent(document: MarkdownDocument): MarkdownDocument {
+    let result = document;
+    if (this.settings.privateMarkers) {
+      result = removePrivateBlocks(result);
+    }
+    result = filterHeaders(result, this.settings.filteredHeaders);
+    if (this.settings.privateTag) {
+      result = filterSections(result, (heading) =>
+        hasPrivateTag(heading, this.settings.privateTag)
+      );
+    }
+    return result;
+  }
+
+  convertToHugoFormat(
+    content: string,
+    fileName: string,
+    filePath: string,
+    route: SiteRoute,
+    slug: string,
+    date: string = new Date().toISOString(),
+    stat?: FileStats
+  ): HugoDocument {
+    const title = fileName.replace(/\.md$/, "");
+    const { frontMatter: sourceFrontMatter, body } = splitFrontMatter(content);
+
+    const symbolOnlyRegex = /^[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>/?]+$/;
+
+    // frontmatter 中的 tags 优先，正文中的内联标签追加在后面
+    const tags: string[] = [];
+    for (const tag of readList(sourceFrontMatter.tags)) {
+      const cleanTag = tag.replace(/^#/, "");
+      if (!symbolOnlyRegex.test(cleanTag) && !tags.includes(cleanTag)) {
+        tags.push(cleanTag);
+      }
+    }
+
+    const imagesToCopy: CopyImageItem[] = [];
+
+    // 依次执行各个转换步骤，代码块、公式和 HTML 在解析时已被保护
+    let markdown = parseMarkdown(
+      convertCallouts(body.split("\n"), this.settings).join("\n")
+    );
+    // %% more %% 也是注释的形式，需要在删除注释之前转换
+    markdown = convertMoreMarker(markdown);
+    if (this.settings.stripComments) {
+      markdown = stripComments(markdown);
+    }
+    markdown = this.removePrivateContent(markdown);
+    // 转换后的链接同样受到保护，避免其中的 #anchor 被当作标签处理
+    markdown = transformText(markdown, (line) =>
+      convertWikiLinks(
+        line,
+        (linkpath) => this.resolveWikiLink(linkpath, filePath, route),
+        this.settings,
+        (link) => protect(markdown, link)
+      )
+    );
+    if (this.settings.convertSameNoteLinks) {
+      markdown = transformText(markdown, (line) =>
+        convertSameNoteLinks(line, (link) => protect(markdown, link))
+      );
+    }
+    markdown = transformText(markdown, (line) =>
+      this.convertAttachments(line, slug, filePath, route, imagesToCopy)
+    );
+    // 整行都是被移除的链接或嵌入时删除该行
+    markdown = removeEmptyLines(markdown);
+    // 保留在正文中的内联标签不包括只在 vault 中使用的标签
+    const extracted = extractTags(
+      markdown,
+      (tag) =>
+        this.settings.keepInlineTags &&
+        !isExcludedTag(tag, this.settings.excludedTags)
+    );
+    markdown = extracted.document;
+    for (const tag of extracted.tags) {
+      if (!tags.includes(tag)) {
+        tags.push(tag);
+      }
+    }
+    // Obsidian 特有的行内语法，标签移除之后转换，避免生成的 HTML 影响标签识别
+    markdown = transformText(markdown, (line) => {
+      let result = line;
+      if (this.settings.convertTaskStates) {
+        result = convertTaskStates(result);
+      }
+      if (this.settings.convertHighlights) {
+        result = convertHighlights(result);
+      }
+      if (this.settings.convertBlockIds) {
+        result = convertBlockIds(result);
+      }
+      return result;
+    });
+    // 按重命名表、排除列表和前缀规则把标签分到各个 taxonomy
+    const taxonomies = mapTaxonomies(tags, this.settings);
+
+    // 开启 descriptionLines 时生成描述：frontmatter 中的 description 或
+    // summary 优先，否则取 %% more %% 之前或开头几行的正文。
+    // 描述取自 callout 转换前的正文，callout 仍是引用块，可以直接跳过
+    const givenDescription = [
+      sourceFrontMatter.description,
+      sourceFrontMatter.summary,
+    ].find((value) => typeof value === "string" && value.trim());
+    const description =
+      this.settings.descriptionLines <= 0
+        ? ""
+        : typeof givenDescription === "string"
+        ? givenDescription.trim()
+        : buildDescription(
+            extractTags(this.removePrivateContent(parseMarkdown(body)))
+              .document,
+            this.settings.descriptionLines,
+            this.settings.descriptionMaxLength
+          );
+
+    // 只移除最开始和最后的空白行，保留段落间的空行
+    const cleanContent = redact(
+      renderMarkdown(markdown),
+      this.settings.redactions
+    ).replace(/^\n+|\n+$/g, "");
+
+    const firstImage = imagesToCopy.find(
+      (image) => attachmentKind(image.newPath) === "image"
+    );
+    const coverUrl = firstImage
+      ? this.getAttachmentSiteUrl(firstImage.newPath, slug, route)
+      : "";
+
+    // 用户模板生成的字段
+    const templateFrontMatter = renderFrontMatterTemplate(
+      route.site.frontMatterTemplate,
+      {
+        title,
+        date,
+        created: stat ? new Date(stat.ctime).toISOString() : date,
+        modified: stat ? new Date(stat.mtime).toISOString() : date,
+        firstImage: coverUrl,
+        tags: taxonomies.tags,
+        description,
+        author: route.site.authorName,
+        wordCount: countWords(cleanContent),
+        frontmatter: sourceFrontMatter,
+      }
+    );
+
+    // 创建 Hugo 格式的前置元数据：笔记自身的 frontmatter 优先，
+    // 生成的字段只用于填补缺失的键
+    const noteFrontMatter = { ...sourceFrontMatter };
+    for (const key of [this.settings.publishFlag, ...CONTROL_KEYS]) {
+      delete noteFrontMatter[key];
+    }
+    if (route.site.multilingualMode === "none") {
+      delete noteFrontMatter.translationKey;
+    }
+    const hugoFrontMatter: FrontMatter = {
+      title: title,
+      date: date,
+      draft: false,
+      ...templateFrontMatter,
+      ...noteFrontMatter,
+      tags: taxonomies.tags,
+    };
+    // 映射到其他 taxonomy 的词条追加在 frontmatter 已有的值之后
+    for (const taxonomy of Object.keys(taxonomies)) {
+      if (taxonomy !== "tags") {
+        const terms = readList(hugoFrontMatter[taxonomy]);
+        hugoFrontMatter[taxonomy] = terms.concat(
+          taxonomies[taxonomy].filter((term) => !terms.includes(term))
+        );
+      }
+    }
+    if (
+      this.settings.descriptionLines > 0 &&
+      description &&
+      hugoFrontMatter.description === undefined
+    ) {
+      hugoFrontMatter.description = description;
+    }
+    if (route.site.authorName && hugoFrontMatter.author === undefined) {
+      hugoFrontMatter.author = route.site.authorName;
+    }
+    if (
+      route.site.useFirstImageAsCover &&
+      coverUrl &&
+      hugoFrontMatter.cover === undefined
+    ) {
+      hugoFrontMatter.cover = coverUrl;
+    }
+
+    // 标题、手写的描述和自定义参数同样经过正则替换
+    return {
+      frontMatter: redactValue(
+        hugoFrontMatter,
+        this.settings.redactions
+      ) as FrontMatter,
+      body: cleanContent,
+      imageList: imagesToCopy,
+    };
+  }
+}
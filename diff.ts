@@ -0,0 +1,53 @@
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/**
+ * Line based diff (longest common subsequence) between the file currently
+ * on disk and the newly generated output.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText ? oldText.split("\n") : [];
+  const newLines = newText ? newText.split("\n") : [];
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lcs[i][j] 为 oldLines[i..] 与 newLines[j..] 的最长公共子序列长度
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) {
+    lcs.push(new Uint32Array(cols + 1));
+  }
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: "same", text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: "removed", text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: "added", text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < rows) {
+    result.push({ type: "removed", text: oldLines[i++] });
+  }
+  while (j < cols) {
+    result.push({ type: "added", text: newLines[j++] });
+  }
+  return result;
+}
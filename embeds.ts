@@ -0,0 +1,197 @@
+import * as path from "path";
+import { splitFrontMatter } from "./frontmatter";
+import { parseMarkdown, renderMarkdown } from "./markdown";
+
+export interface EmbedSource {
+  // 将链接解析为仓库中的文件路径，无法解析时返回 undefined
+  resolve(linkpath: string, sourcePath: string): string | undefined;
+  read(filePath: string): Promise<string>;
+}
+
+// ![[Note]]、![[Note#Heading]]、![[Note#^block]]，可带 |alias
+const embedRegex = /!\[\[([^\[\]|#]*)(#[^\[\]|]*)?(?:\|[^\[\]]*)?\]\]/g;
+const fenceRegex = /^\s*(```|~~~)/;
+
+/**
+ * Expand embedded notes inline. Nested embeds are expanded recursively up to
+ * `maxDepth`; embeds that would recurse into a note already being expanded,
+ * go deeper than the limit, or point to a note for which `canEmbed` returns
+ * false (e.g. one that is not published) are left as plain wikilinks.
+ * Only prose is searched: code, math, HTML and inline code stay untouched.
+ */
+export async function expandEmbeds(
+  content: string,
+  sourcePath: string,
+  source: EmbedSource,
+  maxDepth: number,
+  canEmbed: (filePath: string) => boolean = () => true,
+  stack: string[] = [sourcePath]
+): Promise<string> {
+  if (maxDepth <= 0 || !content.includes("![[")) {
+    return content;
+  }
+
+  // 同步的笔记自身的 frontmatter 原样保留，只解析正文
+  const body = stack.length === 1 ? splitFrontMatter(content).body : content;
+  const document = parseMarkdown(body);
+  for (const block of document.blocks) {
+    if (block.type !== "text") {
+      continue;
+    }
+    for (let i = 0; i < block.lines.length; i++) {
+      const line = block.lines[i];
+      if (!line.includes("![[")) {
+        continue;
+      }
+
+      // 先收集需要展开的嵌入，再逐个异步读取
+      const replacements: string[] = [];
+      const matches: RegExpExecArray[] = [];
+      let match;
+      embedRegex.lastIndex = 0;
+      while ((match = embedRegex.exec(line)) !== null) {
+        matches.push(match);
+      }
+      for (const [text, linkpath, subpath] of matches) {
+        const target = linkpath
+          ? source.resolve(linkpath.trim(), sourcePath)
+          : sourcePath;
+        if (!target || !target.endsWith(".md")) {
+          replacements.push(text);
+          continue;
+        }
+        // 循环引用、超过深度限制或不发布的笔记降级为普通链接，
+        // 正在同步的笔记自身总是可以嵌入
+        const key = target + (subpath || "");
+        if (
+          stack.includes(key) ||
+          stack.length > maxDepth ||
+          (target !== stack[0] && !canEmbed(target))
+        ) {
+          replacements.push(text.slice(1));
+          continue;
+        }
+
+        const embedded = splitFrontMatter(await source.read(target)).body;
+        const section = subpath
+          ? extractSection(embedded, subpath.slice(1))
+          : embedded;
+        if (section === undefined) {
+          replacements.push(text.slice(1));
+          continue;
+        }
+        const expanded = await expandEmbeds(
+          rebaseImageLinks(section.trim(), target, source),
+          target,
+          source,
+          maxDepth,
+          canEmbed,
+          [...stack, key]
+        );
+        replacements.push(expanded);
+      }
+
+      let index = 0;
+      block.lines[i] = line.replace(embedRegex, () => replacements[index++]);
+    }
+  }
+  return (
+    content.slice(0, content.length - body.length) + renderMarkdown(document)
+  );
+}
+
+/**
+ * Extract a heading section (`Heading`, nested as `A#B`) or a block
+ * (`^blockid`) from a note body.
+ */
+export function extractSection(
+  body: string,
+  subpath: string
+): string | undefined {
+  const lines = body.split("\n");
+
+  if (subpath.startsWith("^")) {
+    const blockId = subpath.slice(1);
+    const markerRegex = new RegExp(`\\s\\^${escapeRegex(blockId)}\\s*$`);
+    const end = lines.findIndex((line) => markerRegex.test(line));
+    if (end < 0) {
+      return undefined;
+    }
+    // 列表项只取当前行，段落则向上取到空行为止
+    let start = end;
+    if (!/^\s*([-*+]|\d+[.)])\s/.test(lines[end])) {
+      while (start > 0 && lines[start - 1].trim() !== "") {
+        start--;
+      }
+    }
+    const block = lines.slice(start, end + 1);
+    block[block.length - 1] = block[block.length - 1].replace(markerRegex, "");
+    return block.join("\n");
+  }
+
+  const heading = normalizeHeading(subpath.split("#").pop() || "");
+  let fence: string | null = null;
+  let start = -1;
+  let level = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const fenceMatch = lines[i].match(fenceRegex);
+    if (fenceMatch) {
+      if (!fence) {
+        fence = fenceMatch[1];
+      } else if (fence === fenceMatch[1]) {
+        fence = null;
+      }
+      continue;
+    }
+    const headingMatch = fence ? null : lines[i].match(/^(#{1,6})\s+(.*)$/);
+    if (!headingMatch) {
+      continue;
+    }
+    if (start < 0) {
+      if (normalizeHeading(headingMatch[2]) === heading) {
+        start = i;
+        level = headingMatch[1].length;
+      }
+    } else if (headingMatch[1].length <= level) {
+      return lines.slice(start, i).join("\n");
+    }
+  }
+  return start < 0 ? undefined : lines.slice(start).join("\n");
+}
+
+// 嵌入内容中的图片路径相对于被嵌入的笔记，展开前改写为仓库绝对路径
+function rebaseImageLinks(
+  content: string,
+  notePath: string,
+  source: EmbedSource
+): string {
+  return content
+    .replace(
+      /!\[\[([^\[\]|#]+)((?:[|#][^\[\]]*)?)\]\]/g,
+      (text, linkpath, rest) => {
+        const target = source.resolve(linkpath.trim(), notePath);
+        return target && !target.endsWith(".md")
+          ? `![[${target}${rest}]]`
+          : text;
+      }
+    )
+    .replace(/(!\[[^\]]*\]\()([^)\s]+)/g, (text, prefix, imagePath) => {
+      if (/^[a-z]+:/i.test(imagePath) || imagePath.startsWith("/")) {
+        return text;
+      }
+      return (
+        prefix + path.posix.join("/", path.posix.dirname(notePath), imagePath)
+      );
+    });
+}
+
+function normalizeHeading(heading: string): string {
+  return heading
+    .replace(/[\s#]+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
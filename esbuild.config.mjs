@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import fs from "fs";
 
 const banner =
 `/*
@@ -9,33 +10,65 @@ if you want to view the source, please visit the github repository of this plugi
 */
 `;
 
-const prod = (process.argv[2] === "production");
+const target = process.argv[2];
+const prod = (target === "production");
 
-esbuild.build({
-	banner: {
-		js: banner,
-	},
-	entryPoints: ["main.ts"],
+// CLI 和测试在 Node 中运行，obsidian 模块替换为 nodeObsidian.ts 中的实现
+const nodeOptions = {
 	bundle: true,
-	external: [
-		"obsidian",
-		"electron",
-		"@codemirror/autocomplete",
-		"@codemirror/collab",
-		"@codemirror/commands",
-		"@codemirror/language",
-		"@codemirror/lint",
-		"@codemirror/search",
-		"@codemirror/state",
-		"@codemirror/view",
-		"@lezer/common",
-		"@lezer/highlight",
-		"@lezer/lr",
-		...builtins],
+	platform: "node",
 	format: "cjs",
-	target: "es2018",
-	logLevel: "info",
-	sourcemap: prod ? false : "inline",
-	treeShaking: true,
-	outfile: "main.js",
-}).catch(() => process.exit(1));
\ No newline at end of file
+	target: "node16",
+	alias: {
+		obsidian: "./nodeObsidian.ts",
+	},
+	logLevel: "warning",
+};
+
+if (target === "cli") {
+	esbuild.build({
+		...nodeOptions,
+		banner: {
+			js: "#!/usr/bin/env node",
+		},
+		entryPoints: ["cli.ts"],
+		outfile: "cli.js",
+	}).catch(() => process.exit(1));
+} else if (target === "test") {
+	esbuild.build({
+		...nodeOptions,
+		entryPoints: fs.readdirSync("tests")
+			.filter((name) => name.endsWith(".test.ts"))
+			.map((name) => `tests/${name}`),
+		outdir: "tests/build",
+	}).catch(() => process.exit(1));
+} else {
+	esbuild.build({
+		banner: {
+			js: banner,
+		},
+		entryPoints: ["main.ts"],
+		bundle: true,
+		external: [
+			"obsidian",
+			"electron",
+			"@codemirror/autocomplete",
+			"@codemirror/collab",
+			"@codemirror/commands",
+			"@codemirror/language",
+			"@codemirror/lint",
+			"@codemirror/search",
+			"@codemirror/state",
+			"@codemirror/view",
+			"@lezer/common",
+			"@lezer/highlight",
+			"@lezer/lr",
+			...builtins],
+		format: "cjs",
+		target: "es2018",
+		logLevel: "info",
+		sourcemap: prod ? false : "inline",
+		treeShaking: true,
+		outfile: "main.js",
+	}).catch(() => process.exit(1));
+}
@@ -0,0 +1,157 @@
+import { parseYaml } from "obsidian";
+import { FrontMatter } from "./frontmatter";
+
+export interface TemplateContext {
+  title: string;
+  date: string;
+  created: string;
+  modified: string;
+  // 第一张图片在站点中的 URL，没有图片时为空字符串
+  firstImage: string;
+  tags: string[];
+  description: string;
+  author: string;
+  wordCount: number;
+  // 笔记自身的 frontmatter，通过 {{frontmatter.key}} 访问
+  frontmatter: FrontMatter;
+}
+
+/**
+ * Built-in templates for the keys popular themes expect. Each preset is a
+ * starting point that is copied into the editable template.
+ */
+export const FRONT_MATTER_PRESETS: Record<string, string> = {
+  none: "",
+  papermod: [
+    "cover:",
+    "  image: {{firstImage}}",
+    "  alt: {{title}}",
+    "summary: {{description}}",
+  ].join("\n"),
+  stack: ["image: {{firstImage}}", "description: {{description}}"].join("\n"),
+  loveit: [
+    "featuredImage: {{firstImage}}",
+    "featuredImagePreview: {{firstImage}}",
+    "summary: {{description}}",
+  ].join("\n"),
+  ananke: ["featured_image: {{firstImage}}", "summary: {{description}}"].join(
+    "\n"
+  ),
+  blowfish: ["summary: {{description}}", "showWordCount: true"].join("\n"),
+};
+
+const variableRegex = /\{\{\s*([\w.-]+)\s*\}\}/g;
+// 变量先替换为 YAML 安全的占位符再解析，避免变量值破坏 YAML 结构
+const placeholderRegex = /hugosyncvar(\d+)x/g;
+
+/**
+ * Render a YAML front matter template. A value that consists of a single
+ * variable keeps the variable's type (e.g. `tags: {{tags}}` stays a list);
+ * variables inside longer strings are interpolated. Keys whose value ends
+ * up empty are left out.
+ */
+export function renderFrontMatterTemplate(
+  template: string,
+  context: TemplateContext
+): FrontMatter {
+  if (!template.trim()) {
+    return {};
+  }
+
+  const variables: string[] = [];
+  const source = template.replace(variableRegex, (_, name) => {
+    variables.push(name);
+    return `hugosyncvar${variables.length - 1}x`;
+  });
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(source);
+  } catch (error) {
+    throw new Error(`Invalid front matter template: ${error.message}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Invalid front matter template: expected key: value pairs");
+  }
+
+  const result = fillValue(parsed, variables, context);
+  return (result as FrontMatter) || {};
+}
+
+function fillValue(
+  value: unknown,
+  variables: string[],
+  context: TemplateContext
+): unknown {
+  if (typeof value === "string") {
+    const exact = value.match(/^hugosyncvar(\d+)x$/);
+    const filled = exact
+      ? resolveVariable(variables[Number(exact[1])], context)
+      : value.replace(placeholderRegex, (_, index) =>
+          formatValue(resolveVariable(variables[Number(index)], context))
+        );
+    return isEmpty(filled) ? undefined : filled;
+  }
+  if (Array.isArray(value)) {
+    const items = value
+      .map((item) => fillValue(item, variables, context))
+      .filter((item) => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+  if (value && typeof value === "object") {
+    const result: FrontMatter = {};
+    for (const [key, item] of Object.entries(value)) {
+      const filled = fillValue(item, variables, context);
+      if (filled !== undefined) {
+        result[key] = filled;
+      }
+    }
+    return Object.keys(result).length > 0 ? result : undefined;
+  }
+  return value;
+}
+
+function resolveVariable(name: string, context: TemplateContext): unknown {
+  let current: unknown = context;
+  for (const part of name.split(".")) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) {
+    return "";
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue).join(", ");
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Count words the way readers expect for mixed text: every CJK character
+ * counts as one word, other text is split on whitespace.
+ */
+export function countWords(text: string): number {
+  const cjkRegex = /[぀-ヿ㐀-䶿一-鿿가-힯]/g;
+  const cjk = (text.match(cjkRegex) || []).length;
+  const words = (text.replace(cjkRegex, " ").match(/[^\s\p{P}\p{S}]+/gu) || [])
+    .length;
+  return cjk + words;
+}
@@ -0,0 +1,183 @@
+import { parseYaml, stringifyYaml } from "obsidian";
+
+export type FrontMatter = Record<string, unknown>;
+export type FrontMatterFormat = "yaml" | "toml" | "json";
+
+// 匹配笔记开头的 YAML frontmatter，仅当 --- 位于第一行时生效
+const frontMatterRegex = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Split a note into its parsed YAML frontmatter and the remaining body.
+ * Notes without frontmatter (or with invalid YAML) return an empty object
+ * and the untouched content.
+ */
+export function splitFrontMatter(content: string): {
+  frontMatter: FrontMatter;
+  body: string;
+} {
+  const match = content.match(frontMatterRegex);
+  if (!match) {
+    return { frontMatter: {}, body: content };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(match[1]);
+  } catch (error) {
+    console.error("Failed to parse frontmatter:", error);
+    return { frontMatter: {}, body: content };
+  }
+
+  const frontMatter: FrontMatter = {};
+  if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+    for (const [key, value] of Object.entries(parsed)) {
+      frontMatter[key] = normalizeValue(value);
+    }
+  }
+
+  return { frontMatter, body: content.slice(match[0].length) };
+}
+
+/**
+ * Read a list-like frontmatter field. Obsidian accepts both YAML lists and
+ * comma/space separated strings for `tags`, `aliases` and similar keys.
+ */
+export function readList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : String(value).split(/[,\s]+/);
+  return items
+    .filter((item) => item !== null && item !== undefined)
+    .map((item) => String(item).trim())
+    .filter((item) => item);
+}
+
+// YAML 时间戳会被解析成 Date 对象，这里转回字符串以保留原始写法
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+  if (value && typeof value === "object") {
+    const result: FrontMatter = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = normalizeValue(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Serialize front matter as a YAML (`---`), TOML (`+++`) or JSON block,
+ * including its delimiters. Undefined values are dropped; TOML has no null,
+ * so null values are dropped there as well.
+ */
+export function serializeFrontMatter(
+  frontMatter: FrontMatter,
+  format: FrontMatterFormat
+): string {
+  switch (format) {
+    case "toml":
+      return `+++\n${toToml(frontMatter, []).join("\n")}\n+++\n`;
+    case "json":
+      return JSON.stringify(frontMatter, null, 2) + "\n";
+    default:
+      return `---\n${stringifyYaml(compact(frontMatter))}---\n`;
+  }
+}
+
+function compact(frontMatter: FrontMatter): FrontMatter {
+  const result: FrontMatter = {};
+  for (const [key, value] of Object.entries(frontMatter)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function isTable(value: unknown): value is FrontMatter {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// 简单键值在前，子表（[a.b]）和表数组（[[a.b]]）在后
+function toToml(table: FrontMatter, keyPath: string[]): string[] {
+  const lines: string[] = [];
+  const tables: [string, FrontMatter][] = [];
+  const arrayTables: [string, FrontMatter[]][] = [];
+  for (const [key, value] of Object.entries(table)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    if (isTable(value)) {
+      tables.push([key, value]);
+    } else if (
+      Array.isArray(value) &&
+      value.length > 0 &&
+      value.every(isTable)
+    ) {
+      arrayTables.push([key, value]);
+    } else {
+      lines.push(`${tomlKey(key)} = ${tomlValue(value)}`);
+    }
+  }
+  for (const [key, value] of tables) {
+    const childPath = [...keyPath, key];
+    lines.push("", `[${childPath.map(tomlKey).join(".")}]`);
+    lines.push(...toToml(value, childPath));
+  }
+  for (const [key, items] of arrayTables) {
+    const childPath = [...keyPath, key];
+    for (const item of items) {
+      lines.push("", `[[${childPath.map(tomlKey).join(".")}]]`);
+      lines.push(...toToml(item, childPath));
+    }
+  }
+  return lines;
+}
+
+function tomlKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function tomlValue(value: unknown): string {
+  if (typeof value === "string") {
+    // JSON 字符串的转义序列同样是合法的 TOML basic string
+    return JSON.stringify(value);
+  }
+  if (typeof value === "number") {
+    if (Number.isNaN(value)) {
+      return "nan";
+    }
+    if (!Number.isFinite(value)) {
+      return value > 0 ? "inf" : "-inf";
+    }
+    return String(value);
+  }
+  if (typeof value === "boolean") {
+    return String(value);
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return `[${value
+      .filter((item) => item !== undefined && item !== null)
+      .map(tomlValue)
+      .join(", ")}]`;
+  }
+  if (isTable(value)) {
+    const entries = Object.entries(value).filter(
+      ([, item]) => item !== undefined && item !== null
+    );
+    return `{ ${entries
+      .map(([key, item]) => `${tomlKey(key)} = ${tomlValue(item)}`)
+      .join(", ")} }`;
+  }
+  return JSON.stringify(String(value));
+}
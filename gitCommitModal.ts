@@ -0,0 +1,80 @@
+import { App, Modal, Setting } from "obsidian";
+import { LanguageStrings } from "./lang";
+import type { GitStatusEntry } from "./gitSync";
+
+export interface GitCommitModalOptions {
+  site: string;
+  entries: GitStatusEntry[];
+  message: string;
+  // 为空时不显示推送按钮
+  remote: string;
+  onCommit: (message: string, push: boolean) => void | Promise<void>;
+}
+
+/**
+ * Git status of the files a sync changed, with an editable commit message
+ * and buttons to commit (and push) them.
+ */
+export class GitCommitModal extends Modal {
+  constructor(
+    app: App,
+    private lang: LanguageStrings,
+    private options: GitCommitModalOptions
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, titleEl } = this;
+    const strings = this.lang.notices;
+    titleEl.setText(strings.gitTitle.replace("{0}", this.options.site));
+
+    contentEl.createEl("h4", { text: strings.gitStatus });
+    const listEl = contentEl.createEl("ul", { cls: "hugo-sync-confirm-list" });
+    for (const entry of this.options.entries) {
+      listEl.createEl("li", { text: `${entry.code} ${entry.path}` });
+    }
+
+    contentEl.createEl("h4", { text: strings.gitMessage });
+    const messageEl = contentEl.createEl("textarea", {
+      cls: "hugo-sync-commit-message",
+    });
+    messageEl.value = this.options.message;
+    messageEl.rows = 8;
+
+    const commit = async (push: boolean) => {
+      const message = messageEl.value.trim();
+      if (!message) {
+        messageEl.focus();
+        return;
+      }
+      this.close();
+      await this.options.onCommit(message, push);
+    };
+
+    const buttons = new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText(strings.cancel).onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(strings.gitCommit)
+          .setCta()
+          .onClick(() => commit(false))
+      );
+    if (this.options.remote) {
+      buttons.addButton((button) =>
+        button
+          .setButtonText(strings.gitCommitAndPush)
+          .setCta()
+          .onClick(() => commit(true))
+      );
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
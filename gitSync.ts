@@ -0,0 +1,188 @@
+import { execFile } from "child_process";
+import type { OutputChange, OutputChangeKind } from "./converter";
+
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+/**
+ * Runs external commands. The default runner spawns processes; tests or
+ * other environments can supply their own.
+ */
+export interface CommandRunner {
+  // env 中的变量追加到当前进程的环境变量之上
+  run(
+    command: string,
+    args: string[],
+    cwd: string,
+    env?: Record<string, string>
+  ): Promise<CommandResult>;
+}
+
+export const processRunner: CommandRunner = {
+  run: (command, args, cwd, env) =>
+    new Promise((resolve) => {
+      execFile(
+        command,
+        args,
+        {
+          cwd,
+          env: env ? { ...process.env, ...env } : undefined,
+          maxBuffer: 16 * 1024 * 1024,
+        },
+        (error, stdout, stderr) => {
+          resolve({
+            stdout: String(stdout),
+            stderr: error && !stderr ? error.message : String(stderr),
+            code: error ? (typeof error.code === "number" ? error.code : 1) : 0,
+          });
+        }
+      );
+    }),
+};
+
+export interface GitStatusEntry {
+  // git status --porcelain 的两位状态码，例如 "??"、" M"、" D"
+  code: string;
+  // 相对于仓库根目录的路径
+  path: string;
+}
+
+// 一组改动涉及的输出路径（相对于站点目录），去除重复
+export function changedPaths(changes: OutputChange[]): string[] {
+  const paths: string[] = [];
+  for (const change of changes) {
+    for (const changePath of change.paths) {
+      if (!paths.includes(changePath)) {
+        paths.push(changePath);
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Build a commit message listing the posts a sync added, updated and
+ * removed. A post that was added and updated in the same batch is listed
+ * as added.
+ */
+export function buildCommitMessage(changes: OutputChange[]): string {
+  const groups: Record<OutputChangeKind, string[]> = {
+    added: [],
+    updated: [],
+    removed: [],
+  };
+  for (const change of changes) {
+    if (!groups[change.kind].includes(change.title)) {
+      groups[change.kind].push(change.title);
+    }
+  }
+  groups.updated = groups.updated.filter(
+    (title) => !groups.added.includes(title) && !groups.removed.includes(title)
+  );
+
+  const count =
+    groups.added.length + groups.updated.length + groups.removed.length;
+  const lines = [`Sync ${count} post${count === 1 ? "" : "s"} from Obsidian`];
+  const headings: Record<OutputChangeKind, string> = {
+    added: "Added",
+    updated: "Updated",
+    removed: "Removed",
+  };
+  for (const kind of ["added", "updated", "removed"] as OutputChangeKind[]) {
+    if (groups[kind].length > 0) {
+      lines.push("", `${headings[kind]}:`);
+      lines.push(...groups[kind].map((title) => `- ${title}`));
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * A git working tree that contains a Hugo site. Commands run through a
+ * `CommandRunner` in the site directory, which may be a subdirectory of
+ * the repository.
+ */
+export class GitRepository {
+  private constructor(private runner: CommandRunner, private cwd: string) {}
+
+  // 返回 dir 所在的仓库，dir 不在 git 仓库中时返回 undefined
+  static async open(
+    runner: CommandRunner,
+    dir: string
+  ): Promise<GitRepository | undefined> {
+    const result = await runner.run(
+      "git",
+      ["rev-parse", "--is-inside-work-tree"],
+      dir
+    );
+    if (result.code !== 0 || result.stdout.trim() !== "true") {
+      return undefined;
+    }
+    return new GitRepository(runner, dir);
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const result = await this.runner.run("git", args, this.cwd);
+    if (result.code !== 0) {
+      throw new Error(
+        result.stderr.trim() || `git ${args[0]} exited with ${result.code}`
+      );
+    }
+    return result.stdout;
+  }
+
+  /**
+   * Status of the given paths (relative to the site directory); unchanged
+   * paths are left out.
+   */
+  async status(paths: string[]): Promise<GitStatusEntry[]> {
+    if (paths.length === 0) {
+      return [];
+    }
+    const output = await this.git([
+      "status",
+      "--porcelain",
+      "-z",
+      "--untracked-files=all",
+      "--",
+      ...paths.map((filePath) => pathspec(filePath)),
+    ]);
+    const entries: GitStatusEntry[] = [];
+    const fields = output.split("\0");
+    for (let i = 0; i < fields.length; i++) {
+      if (fields[i].length < 4) {
+        continue;
+      }
+      const code = fields[i].slice(0, 2);
+      entries.push({ code, path: fields[i].slice(3) });
+      // 重命名和复制的条目后面跟着原路径
+      if (code[0] === "R" || code[0] === "C") {
+        i++;
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Commit exactly the given status entries; other staged changes are left
+   * alone.
+   */
+  async commit(entries: GitStatusEntry[], message: string) {
+    // status 输出的路径相对于仓库根目录
+    const paths = entries.map((entry) => `:(top,literal)${entry.path}`);
+    await this.git(["add", "-A", "--", ...paths]);
+    await this.git(["commit", "-m", message, "--", ...paths]);
+  }
+
+  async push(remote: string) {
+    await this.git(["push", remote, "HEAD"]);
+  }
+}
+
+// 文件名中可能包含 * ? [ 等字符，按字面匹配
+function pathspec(filePath: string): string {
+  return `:(literal)${filePath.replace(/\\/g, "/").replace(/\/+$/, "")}`;
+}
@@ -0,0 +1,139 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type HugoSyncPlugin from "./main";
+import type { FileSyncResult, SyncRun } from "./syncHistory";
+
+export const HISTORY_VIEW_TYPE = "hugo-sync-history";
+
+/**
+ * Side panel listing the latest sync runs with the result of every note,
+ * and actions to retry the failed notes or open the generated files.
+ */
+export class HugoHistoryView extends ItemView {
+  private unsubscribe: () => void;
+
+  constructor(leaf: WorkspaceLeaf, private plugin: HugoSyncPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return HISTORY_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return this.plugin.lang.notices.historyTitle;
+  }
+
+  getIcon(): string {
+    return "clock";
+  }
+
+  async onOpen() {
+    this.unsubscribe = this.plugin.syncHistory.onChange(() => this.render());
+    this.render();
+  }
+
+  async onClose() {
+    this.unsubscribe?.();
+  }
+
+  private render() {
+    const strings = this.plugin.lang.notices;
+    const { runs } = this.plugin.syncHistory;
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const toolbarEl = contentEl.createDiv({ cls: "hugo-sync-log-toolbar" });
+    toolbarEl.createEl("button", { text: strings.logClear }).onclick = () =>
+      this.plugin.syncHistory.clear();
+
+    if (runs.length === 0) {
+      contentEl.createEl("p", { text: strings.historyEmpty });
+      return;
+    }
+    for (const run of runs) {
+      this.renderRun(contentEl, run);
+    }
+  }
+
+  private renderRun(containerEl: HTMLElement, run: SyncRun) {
+    const strings = this.plugin.lang.notices;
+    const count = (status: string) =>
+      run.results
+        .filter((result) => result.status === status)
+        .length.toString();
+    const failed = run.results.filter((result) => result.status === "failed");
+
+    const runEl = containerEl.createDiv({ cls: "hugo-sync-history-run" });
+    const headerEl = runEl.createDiv({ cls: "hugo-sync-log-toolbar" });
+    headerEl.createEl("strong", {
+      text: new Date(run.time).toLocaleString(),
+    });
+    headerEl.createSpan({
+      text:
+        run.trigger === "watch" ? strings.historyWatch : strings.historyManual,
+    });
+    headerEl.createSpan({
+      text: strings.historySummary
+        .replace("{0}", count("created"))
+        .replace("{1}", count("updated"))
+        .replace("{2}", count("skipped"))
+        .replace("{3}", failed.length.toString()),
+    });
+    if (failed.length > 0) {
+      headerEl.createEl("button", {
+        text: strings.historyRetryFailed,
+      }).onclick = () =>
+        this.plugin.retryFailed(failed.map((result) => result.path));
+    }
+
+    for (const result of run.results) {
+      this.renderResult(runEl, result);
+    }
+  }
+
+  private renderResult(containerEl: HTMLElement, result: FileSyncResult) {
+    const strings = this.plugin.lang.notices;
+    const statusText = {
+      created: strings.historyCreated,
+      updated: strings.historyUpdated,
+      skipped: strings.historySkipped,
+      failed: strings.historyFailed,
+    }[result.status];
+
+    const fileEl = containerEl.createDiv({ cls: "hugo-sync-history-file" });
+    const lineEl = fileEl.createDiv({ cls: "hugo-sync-log-toolbar" });
+    lineEl.createSpan({
+      text: statusText,
+      cls: `hugo-sync-status hugo-sync-status-${result.status}`,
+    });
+    lineEl.createSpan({ text: result.path });
+    if (result.outputPath && result.status !== "failed") {
+      lineEl.createEl("button", { text: strings.historyOpenOutput }).onclick =
+        () => this.plugin.openOutputFile(result);
+    }
+
+    const detailsEl = fileEl.createEl("pre", { cls: "hugo-sync-log" });
+    if (result.outputPath) {
+      detailsEl.createDiv({ text: `→ ${result.outputPath}` });
+    }
+    for (const image of result.images) {
+      detailsEl.createDiv({ text: `+ ${image}` });
+    }
+    if (result.secrets) {
+      detailsEl.createDiv({
+        text: `${strings.secretWarning}: ${result.secrets.join(", ")}`,
+        cls: "hugo-sync-log-error",
+      });
+    }
+    if (result.error) {
+      // 调用栈的第一行就是错误信息，有调用栈时只显示调用栈
+      detailsEl.createDiv({
+        text: result.stack || result.error,
+        cls: "hugo-sync-log-error",
+      });
+    }
+    if (detailsEl.childElementCount === 0) {
+      detailsEl.remove();
+    }
+  }
+}
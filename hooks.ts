@@ -0,0 +1,87 @@
+import type { OutputChange } from "./converter";
+import type { CommandRunner } from "./gitSync";
+import type { SiteProfile } from "./sites";
+
+export interface HookResult {
+  site: string;
+  command: string;
+  code: number;
+  // stdout 和 stderr 合并后的输出
+  output: string;
+}
+
+// 钩子通过系统 shell 执行，可以使用管道、&& 和环境变量
+export function shellCommand(command: string): [string, string[]] {
+  return process.platform === "win32"
+    ? [process.env.ComSpec || "cmd.exe", ["/d", "/s", "/c", command]]
+    : ["/bin/sh", ["-c", command]];
+}
+
+/**
+ * Environment passed to the hooks of a site. File lists are relative to
+ * the site's hugoPath, one per line.
+ */
+export function hookEnv(
+  site: SiteProfile,
+  changes: OutputChange[]
+): Record<string, string> {
+  const written: string[] = [];
+  const removed: string[] = [];
+  for (const change of changes) {
+    const list = change.kind === "removed" ? removed : written;
+    for (const changePath of change.paths) {
+      if (!list.includes(changePath)) {
+        list.push(changePath);
+      }
+    }
+  }
+  return {
+    HUGO_SYNC_SITE: site.name,
+    HUGO_SYNC_PATH: site.hugoPath,
+    HUGO_SYNC_FILES: written
+      .filter((file) => !removed.includes(file))
+      .join("\n"),
+    HUGO_SYNC_REMOVED: removed.join("\n"),
+  };
+}
+
+/**
+ * Run the post-sync hooks of every site that has changes, in the site's
+ * hugoPath. The hooks of a site stop at the first failing command.
+ */
+export async function runPostSyncHooks(
+  runner: CommandRunner,
+  sites: SiteProfile[],
+  changes: OutputChange[],
+  onResult?: (result: HookResult) => void
+): Promise<HookResult[]> {
+  const results: HookResult[] = [];
+  for (const site of sites) {
+    const siteChanges = changes.filter((change) => change.site === site.name);
+    if (site.postSyncHooks.length === 0 || siteChanges.length === 0) {
+      continue;
+    }
+    const env = hookEnv(site, siteChanges);
+    for (const command of site.postSyncHooks) {
+      const [shell, args] = shellCommand(command);
+      const { stdout, stderr, code } = await runner.run(
+        shell,
+        args,
+        site.hugoPath,
+        env
+      );
+      const result: HookResult = {
+        site: site.name,
+        command,
+        code,
+        output: [stdout, stderr].filter((text) => text.trim()).join("\n"),
+      };
+      results.push(result);
+      onResult?.(result);
+      if (code !== 0) {
+        break;
+      }
+    }
+  }
+  return results;
+}
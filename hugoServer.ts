@@ -0,0 +1,95 @@
+import { ChildProcess, spawn } from "child_process";
+import type { LogBuffer } from "./logView";
+import type { SiteProfile } from "./sites";
+
+const SOURCE = "hugo server";
+
+/**
+ * A `hugo server` child process for one site. Its output goes to the log
+ * buffer; the address it serves on is read from that output.
+ */
+export class HugoServer {
+  // 正在预览的站点名称和 hugo server 输出的地址
+  site?: string;
+  url?: string;
+  private child?: ChildProcess;
+
+  constructor(
+    private log: LogBuffer,
+    private onError?: (line: string) => void
+  ) {}
+
+  get running(): boolean {
+    return this.child !== undefined;
+  }
+
+  start(command: string, site: SiteProfile) {
+    this.stop();
+    this.site = site.name;
+    this.url = undefined;
+
+    // 通过 shell 启动以支持命令中的参数；POSIX 上放入独立进程组，停止时一并结束
+    const child = spawn(command, {
+      cwd: site.hugoPath,
+      shell: true,
+      detached: process.platform !== "win32",
+    });
+    this.child = child;
+    this.log.append(SOURCE, `${command} (${site.hugoPath})`, "info");
+    const onData = (data: Buffer) => {
+      const text = data.toString();
+      const match = text.match(/Web Server is available at (\S+)/);
+      if (match) {
+        this.url = match[1].startsWith("//") ? "http:" + match[1] : match[1];
+      }
+      this.log.append(SOURCE, text);
+      const error = text.split(/\r?\n/).find((line) => /\bERROR\b/.test(line));
+      if (error) {
+        this.onError?.(error);
+      }
+    };
+    child.stdout?.on("data", onData);
+    child.stderr?.on("data", onData);
+    child.on("error", (error) => {
+      this.log.append(SOURCE, error.message, "error");
+    });
+    child.on("exit", (code, signal) => {
+      if (this.child === child) {
+        this.child = undefined;
+        this.url = undefined;
+      }
+      this.log.append(
+        SOURCE,
+        `exited with ${signal ?? code}`,
+        code ? "error" : "info"
+      );
+    });
+  }
+
+  stop() {
+    const child = this.child;
+    if (!child?.pid) {
+      this.child = undefined;
+      return;
+    }
+    this.child = undefined;
+    this.url = undefined;
+    if (process.platform === "win32") {
+      spawn("taskkill", ["/pid", String(child.pid), "/t", "/f"]);
+    } else {
+      try {
+        process.kill(-child.pid, "SIGTERM");
+      } catch (error) {
+        child.kill();
+      }
+    }
+  }
+
+  // 站点中某个页面在预览服务器上的地址
+  pageUrl(site: string, permalink: string): string | undefined {
+    if (!this.url || site !== this.site) {
+      return undefined;
+    }
+    return this.url.replace(/\/+$/, "") + permalink;
+  }
+}
@@ -0,0 +1,125 @@
+import * as path from "path";
+
+export type AttachmentNaming = "original" | "hash";
+
+export interface ImageProcessingOptions {
+  // 图片最大宽度，0 表示不缩放
+  imageMaxWidth: number;
+  convertToWebp: boolean;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".bmp": "image/bmp",
+};
+
+const WEBP_QUALITY = 0.85;
+
+/**
+ * Only static raster images are processed; GIF (possibly animated) and SVG
+ * are always copied as they are.
+ */
+export function shouldProcessImage(
+  filePath: string,
+  options: ImageProcessingOptions
+): boolean {
+  const ext = path.extname(filePath).toLowerCase();
+  return (
+    MIME_TYPES[ext] !== undefined &&
+    (options.imageMaxWidth > 0 || options.convertToWebp)
+  );
+}
+
+/**
+ * The extension of a processed image. Canvas cannot encode BMP, so BMP
+ * images are written as PNG unless they are converted to WebP.
+ */
+export function processedExtension(
+  filePath: string,
+  options: ImageProcessingOptions
+): string {
+  if (!shouldProcessImage(filePath, options)) {
+    return path.extname(filePath);
+  }
+  if (options.convertToWebp) {
+    return ".webp";
+  }
+  return path.extname(filePath).toLowerCase() === ".bmp"
+    ? ".png"
+    : path.extname(filePath);
+}
+
+// 处理后的 MIME 类型，与 processedExtension 对应
+function outputMimeType(
+  filePath: string,
+  options: ImageProcessingOptions
+): string {
+  return MIME_TYPES[processedExtension(filePath, options).toLowerCase()];
+}
+
+// 缓存键同时包含源文件哈希和处理参数，参数变化时重新处理
+export function processingCacheKey(
+  sourceHash: string,
+  options: ImageProcessingOptions
+): string {
+  return `${sourceHash}-${options.imageMaxWidth}-${
+    options.convertToWebp ? "webp" : "orig"
+  }`;
+}
+
+/**
+ * Name an attachment after its content: `photo-1a2b3c4d.png`. Two different
+ * files with the same name never collide and an edited file gets a new name.
+ */
+export function hashedName(fileName: string, sourceHash: string): string {
+  const ext = path.extname(fileName);
+  return `${path.basename(fileName, ext)}-${sourceHash.slice(0, 8)}${ext}`;
+}
+
+/**
+ * Resize and/or re-encode an image with the browser canvas that Obsidian
+ * runs in, so no native image library is needed.
+ */
+export async function processImage(
+  data: Buffer,
+  filePath: string,
+  options: ImageProcessingOptions
+): Promise<Buffer> {
+  const mimeType = MIME_TYPES[path.extname(filePath).toLowerCase()];
+  const outputType = outputMimeType(filePath, options);
+  const bitmap = await createImageBitmap(new Blob([data], { type: mimeType }));
+  const scale =
+    options.imageMaxWidth > 0 && bitmap.width > options.imageMaxWidth
+      ? options.imageMaxWidth / bitmap.width
+      : 1;
+  // 不需要缩放且格式不变时直接使用原图
+  if (scale === 1 && outputType === mimeType) {
+    bitmap.close();
+    return data;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (result) =>
+        result
+          ? resolve(result)
+          : reject(new Error(`Failed to encode image ${filePath}`)),
+      outputType,
+      WEBP_QUALITY
+    )
+  );
+  return Buffer.from(await blob.arrayBuffer());
+}
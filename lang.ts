@@ -7,6 +7,102 @@ export interface LanguageStrings {
     contentPathDesc: string;
     filteredHeaders: string;
     filteredHeadersDesc: string;
+    taxonomyRules: string;
+    taxonomyRulesDesc: string;
+    tagAliases: string;
+    tagAliasesDesc: string;
+    excludedTags: string;
+    excludedTagsDesc: string;
+    lowercaseTags: string;
+    lowercaseTagsDesc: string;
+    nestedTagMode: string;
+    nestedTagModeDesc: string;
+    keepInlineTags: string;
+    keepInlineTagsDesc: string;
+    stripComments: string;
+    stripCommentsDesc: string;
+    privateMarkers: string;
+    privateMarkersDesc: string;
+    privateTag: string;
+    privateTagDesc: string;
+    redactions: string;
+    redactionsDesc: string;
+    secretPatterns: string;
+    secretPatternsDesc: string;
+    linkStyle: string;
+    linkStyleDesc: string;
+    unpublishedLinks: string;
+    unpublishedLinksDesc: string;
+    convertBlockReferences: string;
+    convertBlockReferencesDesc: string;
+    convertSameNoteLinks: string;
+    convertSameNoteLinksDesc: string;
+    convertBlockIds: string;
+    convertBlockIdsDesc: string;
+    convertHighlights: string;
+    convertHighlightsDesc: string;
+    convertTaskStates: string;
+    convertTaskStatesDesc: string;
+    publishFlag: string;
+    publishFlagDesc: string;
+    includeFolders: string;
+    includeFoldersDesc: string;
+    excludeFolders: string;
+    excludeFoldersDesc: string;
+    requiredTags: string;
+    requiredTagsDesc: string;
+    watchMode: string;
+    watchModeDesc: string;
+    watchDelay: string;
+    watchDelayDesc: string;
+    hugoServerCommand: string;
+    hugoServerCommandDesc: string;
+    calloutPreset: string;
+    calloutPresetDesc: string;
+    calloutTemplate: string;
+    calloutTemplateDesc: string;
+    calloutTemplates: string;
+    calloutTemplatesDesc: string;
+    foldableAsDetails: string;
+    foldableAsDetailsDesc: string;
+    embedDepth: string;
+    embedDepthDesc: string;
+    sizedImageStyle: string;
+    sizedImageStyleDesc: string;
+    pdfShortcode: string;
+    pdfShortcodeDesc: string;
+    attachmentNaming: string;
+    attachmentNamingDesc: string;
+    imageMaxWidth: string;
+    imageMaxWidthDesc: string;
+    convertToWebp: string;
+    convertToWebpDesc: string;
+    frontMatterFormat: string;
+    frontMatterFormatDesc: string;
+    frontMatterPreset: string;
+    frontMatterPresetDesc: string;
+    frontMatterTemplate: string;
+    frontMatterTemplateDesc: string;
+    siteName: string;
+    siteNameDesc: string;
+    addSite: string;
+    removeSite: string;
+    multilingualMode: string;
+    multilingualModeDesc: string;
+    defaultLanguage: string;
+    defaultLanguageDesc: string;
+    gitEnabled: string;
+    gitEnabledDesc: string;
+    gitRemote: string;
+    gitRemoteDesc: string;
+    postSyncHooks: string;
+    postSyncHooksDesc: string;
+    staticPath: string;
+    staticPathDesc: string;
+    routingRules: string;
+    routingRulesDesc: string;
+    slugStrategy: string;
+    slugStrategyDesc: string;
   };
   notices: {
     iconNotice: string;
@@ -16,6 +112,74 @@ export interface LanguageStrings {
     noFilesSelected: string;
     syncResult: string;
     syncErrors: string;
+    secretWarning: string;
+    syncAllCommandName: string;
+    syncFolderMenu: string;
+    unpublishCommandName: string;
+    pruneCommandName: string;
+    startServerCommandName: string;
+    stopServerCommandName: string;
+    showLogCommandName: string;
+    logTitle: string;
+    logClear: string;
+    showHistoryCommandName: string;
+    historyTitle: string;
+    historyEmpty: string;
+    historyManual: string;
+    historyWatch: string;
+    historySummary: string;
+    historyCreated: string;
+    historyUpdated: string;
+    historySkipped: string;
+    historyFailed: string;
+    historyRetryFailed: string;
+    historyOpenOutput: string;
+    historyNothingToRetry: string;
+    historyOutputMissing: string;
+    historyOpenFailed: string;
+    historyHint: string;
+    serverRunning: string;
+    serverStopped: string;
+    serverStart: string;
+    serverStop: string;
+    serverOpen: string;
+    serverError: string;
+    serverNoHugoPath: string;
+    hookFailed: string;
+    nothingToUnpublish: string;
+    unpublishResult: string;
+    nothingToPrune: string;
+    pruneTitle: string;
+    pruneMessage: string;
+    pruneResult: string;
+    confirmDelete: string;
+    siteNameInvalid: string;
+    removeSiteTitle: string;
+    removeSiteMessage: string;
+    confirmRemoveSite: string;
+    cancel: string;
+    previewCommandName: string;
+    previewTitle: string;
+    previewOutput: string;
+    previewDiff: string;
+    previewNewFile: string;
+    previewNoChanges: string;
+    previewImages: string;
+    previewNoImages: string;
+    previewConfirm: string;
+    gitTitle: string;
+    gitStatus: string;
+    gitMessage: string;
+    gitCommit: string;
+    gitCommitAndPush: string;
+    gitNotRepository: string;
+    gitCommitted: string;
+    gitPushed: string;
+    gitFailed: string;
+    watchIdle: string;
+    watchPending: string;
+    watchSyncing: string;
+    watchError: string;
   };
 }
 
@@ -28,7 +192,145 @@ const en: LanguageStrings = {
     contentPathDesc: "Path to Hugo content directory (relative to Hugo Path)",
     filteredHeaders: "Filtered Headers",
     filteredHeadersDesc:
-      "Enter headers to be filtered from Hugo content (one per line)",
+      "Enter headers to be filtered from Hugo content (one per line). End a header with * to match a prefix, or write /pattern/ for a regular expression",
+    taxonomyRules: "Taxonomy rules",
+    taxonomyRulesDesc:
+      "One rule per line: 'cat -> categories' moves tags below cat/ (e.g. #cat/news) to the categories taxonomy",
+    tagAliases: "Tag renames",
+    tagAliasesDesc:
+      "One rename per line, e.g. 'js -> javascript'. Matching ignores case; an empty target drops the tag",
+    excludedTags: "Excluded tags",
+    excludedTagsDesc:
+      "Vault-only tags that are never published, one per line. Nested tags below them are excluded too",
+    lowercaseTags: "Lowercase tags",
+    lowercaseTagsDesc: "Write tags and other taxonomy terms in lowercase",
+    nestedTagMode: "Nested tags",
+    nestedTagModeDesc: "How tags such as #lang/rust are written to Hugo",
+    keepInlineTags: "Keep inline tags in text",
+    keepInlineTagsDesc:
+      "Leave #tags in the body text instead of removing them. Excluded tags are always removed",
+    stripComments: "Remove Obsidian comments",
+    stripCommentsDesc:
+      "Remove %% comments %%, inline or spanning several lines",
+    privateMarkers: "Remove private blocks",
+    privateMarkersDesc:
+      "Remove everything between <!-- private --> and <!-- /private --> lines",
+    privateTag: "Private tag",
+    privateTagDesc:
+      "Headings with this tag (e.g. ## Notes #private) are removed with their section. Leave empty to disable",
+    redactions: "Redactions",
+    redactionsDesc:
+      "One regular expression per line, optionally followed by ' -> replacement'. Matches in the output are replaced (default [redacted])",
+    secretPatterns: "Secret patterns",
+    secretPatternsDesc:
+      "Regular expressions, one per line. The sync results warn when the output still matches one of them",
+    linkStyle: "Note Link Style",
+    linkStyleDesc:
+      "How [[wikilinks]] to published notes are written: relref shortcode or plain permalink",
+    unpublishedLinks: "Links to Unpublished Notes",
+    unpublishedLinksDesc:
+      "Keep only the link text, or remove links to notes that are not published or do not exist",
+    convertBlockReferences: "Link block references",
+    convertBlockReferencesDesc:
+      "Link [[Note#^block-id]] to the block's anchor in the target post instead of the top of the page",
+    convertSameNoteLinks: "Convert same-note links",
+    convertSameNoteLinksDesc:
+      "Convert [[#Heading]] and [[#^block-id]] into links to anchors on the same page",
+    convertBlockIds: "Convert block IDs",
+    convertBlockIdsDesc:
+      "Replace a trailing ^block-id with an HTML anchor that block references can link to",
+    convertHighlights: "Convert highlights",
+    convertHighlightsDesc: "Convert ==highlight== into <mark>highlight</mark>",
+    convertTaskStates: "Normalize task states",
+    convertTaskStatesDesc:
+      "Turn custom task states such as - [/] or - [>] into open checkboxes, and cancelled tasks - [-] into checked ones",
+    publishFlag: "Publish Flag",
+    publishFlagDesc:
+      "Frontmatter key that must be true for a note to be published (leave empty to not require a flag)",
+    includeFolders: "Included Folders",
+    includeFoldersDesc:
+      "Only publish notes in these folders (one per line, empty for the whole vault)",
+    excludeFolders: "Excluded Folders",
+    excludeFoldersDesc: "Never publish notes in these folders (one per line)",
+    requiredTags: "Required Tags",
+    requiredTagsDesc:
+      "Only publish notes with at least one of these tags (one per line)",
+    watchMode: "Auto Sync on Save",
+    watchModeDesc:
+      "Re-sync publishable notes after they change, move outputs on rename and remove them on delete",
+    watchDelay: "Auto Sync Delay",
+    watchDelayDesc: "Seconds to wait after the last change before syncing",
+    hugoServerCommand: "Hugo server command",
+    hugoServerCommandDesc:
+      "Command that starts the preview server, run in the Hugo path of the site",
+    calloutPreset: "Callout Style",
+    calloutPresetDesc:
+      "How Obsidian callouts (> [!type] Title) are converted for your Hugo theme",
+    calloutTemplate: "Custom Callout Template",
+    calloutTemplateDesc:
+      "Used by the Custom style. Variables: {type}, {title}, {content}, {open}, {openAttr}; \\n for new lines",
+    calloutTemplates: "Callout Templates per Type",
+    calloutTemplatesDesc:
+      "Override the template for specific callout types, one per line as type: template",
+    foldableAsDetails: "Foldable Callouts as <details>",
+    foldableAsDetailsDesc:
+      "Convert foldable callouts ([!type]+ / [!type]-) into <details> blocks",
+    embedDepth: "Embedded Note Depth",
+    embedDepthDesc:
+      "Expand ![[Note]], ![[Note#Heading]] and ![[Note#^block]] embeds inline up to this depth (0 to disable). Notes that are not published stay plain links",
+    sizedImageStyle: "Sized Image Output",
+    sizedImageStyleDesc:
+      "How images with a size hint (![[image.png|300]] or |300x200) are written: <img> tag or figure shortcode",
+    pdfShortcode: "PDF Embed Shortcode",
+    pdfShortcodeDesc:
+      "Shortcode used for embedded PDFs, called with a url parameter (leave empty for a download link)",
+    attachmentNaming: "Attachment Naming",
+    attachmentNamingDesc:
+      "Keep original file names (files with the same name but different content get a hash suffix) or always name attachments by content hash",
+    imageMaxWidth: "Max Image Width",
+    imageMaxWidthDesc:
+      "Resize PNG/JPEG/WebP images wider than this (0 to disable)",
+    convertToWebp: "Convert Images to WebP",
+    convertToWebpDesc:
+      "Re-encode PNG/JPEG images as WebP; processed images are cached in the plugin folder",
+    frontMatterFormat: "Front Matter Format",
+    frontMatterFormatDesc:
+      "Write front matter as YAML (---), TOML (+++) or JSON",
+    frontMatterPreset: "Front Matter Preset",
+    frontMatterPresetDesc:
+      "Load the front matter template for a theme into the editor below",
+    frontMatterTemplate: "Front Matter Template",
+    frontMatterTemplateDesc:
+      "YAML added to every post (the note's own front matter wins). Variables: {{title}}, {{date}}, {{created}}, {{modified}}, {{firstImage}}, {{tags}}, {{description}}, {{author}}, {{wordCount}}, {{frontmatter.key}}. Keys whose value is empty are omitted",
+    siteName: "Site",
+    siteNameDesc:
+      "Name of this Hugo site, used by routing rules and the hugo_site frontmatter key. The first site is the default",
+    addSite: "Add site",
+    removeSite: "Remove site",
+    multilingualMode: "Multilingual Output",
+    multilingualModeDesc:
+      'Write notes with a lang frontmatter key as translations: index.<lang>.md in a shared page bundle, or per-language content directories. Notes sharing a translationKey, or pointing to their counterpart with translationOf: "[[Note]]", share one slug and section',
+    defaultLanguage: "Default Language",
+    defaultLanguageDesc:
+      "Language of notes without a lang key; pages in other languages get a /<lang>/ URL prefix",
+    gitEnabled: "Commit to git after sync",
+    gitEnabledDesc:
+      "After a sync, show the git status of the files the plugin changed in this site and offer to commit them",
+    gitRemote: "Git remote",
+    gitRemoteDesc:
+      "Remote to push the commit to. Leave empty to commit without pushing",
+    postSyncHooks: "Post-sync hooks",
+    postSyncHooksDesc:
+      "Shell commands run in the Hugo path after each sync, one per line, e.g. hugo --minify. HUGO_SYNC_FILES and HUGO_SYNC_REMOVED list the changed files",
+    staticPath: "Static Path",
+    staticPathDesc:
+      "Static directory relative to the Hugo project, used when images are stored in the static folder",
+    routingRules: "Routing Rules",
+    routingRulesDesc:
+      'One rule per line: "folder: Notes/TIL -> blog/til" or "tag: docs -> docs" sends matching notes to a site and an optional section under its content directory. The first matching rule wins; hugo_site and section keys in a note\'s frontmatter override the rules',
+    slugStrategy: "Slug Strategy",
+    slugStrategyDesc:
+      "How the page folder (or file) name of a newly published note is built. A slug key in the frontmatter overrides it. Except for the original name, slugs are ASCII only: characters that cannot be transliterated (such as Chinese or Japanese) are dropped, the transliterated strategy replaces them with a short hash of the title, and a title with nothing else left becomes that hash. A generated slug already used by another note in the same section gets a short hash of the note path appended. Once published, a note keeps its slug when renamed, so its URL does not change",
   },
   notices: {
     iconNotice: "Sync to Hugo",
@@ -36,8 +338,80 @@ const en: LanguageStrings = {
     syncSuccess: "Synced {0} file(s) to Hugo",
     syncError: "Error syncing to Hugo: {0}",
     noFilesSelected: "No files selected for syncing",
-    syncResult: "Sync complete. Total: {0}, Success: {1}, Failed: {2}",
+    syncResult:
+      "Sync complete. Total: {0}, Success: {1}, Failed: {2}, Unchanged: {3}",
     syncErrors: "Errors occurred during sync",
+    secretWarning: "Output still matches secret patterns",
+    syncAllCommandName: "Sync all publishable notes to Hugo",
+    syncFolderMenu: "Sync folder to Hugo",
+    unpublishCommandName: "Unpublish selected file(s) from Hugo",
+    pruneCommandName: "Prune orphaned Hugo outputs",
+    startServerCommandName: "Start Hugo preview server",
+    stopServerCommandName: "Stop Hugo preview server",
+    showLogCommandName: "Show Hugo log",
+    logTitle: "Hugo log",
+    logClear: "Clear",
+    showHistoryCommandName: "Show sync history",
+    historyTitle: "Hugo sync history",
+    historyEmpty: "No syncs recorded yet",
+    historyManual: "Manual sync",
+    historyWatch: "Auto sync",
+    historySummary: "Created: {0}, Updated: {1}, Unchanged: {2}, Failed: {3}",
+    historyCreated: "Created",
+    historyUpdated: "Updated",
+    historySkipped: "Unchanged",
+    historyFailed: "Failed",
+    historyRetryFailed: "Retry failed",
+    historyOpenOutput: "Open output file",
+    historyNothingToRetry: "None of the failed notes exist anymore",
+    historyOutputMissing: "Output file not found: {0}",
+    historyOpenFailed: "Could not open {0}: {1}",
+    historyHint: 'Full errors are in the sync history ("Show sync history")',
+    serverRunning: "Hugo server running: {0}",
+    serverStopped: "Hugo server stopped",
+    serverStart: "Start",
+    serverStop: "Stop",
+    serverOpen: "Open",
+    serverError: "Hugo build error: {0}",
+    serverNoHugoPath:
+      'Set the Hugo path of site "{0}" before starting the server',
+    hookFailed: "Post-sync hook failed in {0}: {1} (exit code {2})",
+    nothingToUnpublish: "None of the selected files have been synced to Hugo",
+    unpublishResult: "Removed {0} post(s) from Hugo",
+    nothingToPrune: "No orphaned Hugo outputs found",
+    pruneTitle: "Prune Hugo outputs",
+    pruneMessage:
+      "The source notes of these outputs were deleted or marked unpublished. The following files will be deleted:",
+    pruneResult: "Pruned {0} post(s) from Hugo",
+    confirmDelete: "Delete",
+    siteNameInvalid: 'Site name "{0}" is empty or already used by another site',
+    removeSiteTitle: "Remove site {0}",
+    removeSiteMessage:
+      "These notes were published to this site. They will be removed from the sync manifest; their output stays in the Hugo project:",
+    confirmRemoveSite: "Remove",
+    cancel: "Cancel",
+    previewCommandName: "Preview Hugo output of current file",
+    previewTitle: "Hugo output preview",
+    previewOutput: "Generated file",
+    previewDiff: "Changes against the file on disk",
+    previewNewFile: "The file does not exist yet and will be created.",
+    previewNoChanges: "No changes.",
+    previewImages: "Images to copy",
+    previewNoImages: "No images.",
+    previewConfirm: "Write to Hugo",
+    gitTitle: "Commit changes to {0}",
+    gitStatus: "Changed files",
+    gitMessage: "Commit message",
+    gitCommit: "Commit",
+    gitCommitAndPush: "Commit and push",
+    gitNotRepository: "{0} is not in a git repository",
+    gitCommitted: "Committed {0} file(s) in {1}",
+    gitPushed: "Pushed {0} to {1}",
+    gitFailed: "Git error in {0}: {1}",
+    watchIdle: "Hugo: up to date",
+    watchPending: "Hugo: {0} pending",
+    watchSyncing: "Hugo: syncing…",
+    watchError: "Hugo: {0} failed",
   },
 };
 
@@ -49,7 +423,137 @@ const zh: LanguageStrings = {
     contentPath: "内容路径",
     contentPathDesc: "Hugo 内容目录的路径（相对于 Hugo 路径）",
     filteredHeaders: "过滤的标题",
-    filteredHeadersDesc: "输入要从 Hugo 内容中过滤的标题（每行一个）",
+    filteredHeadersDesc:
+      "输入要从 Hugo 内容中过滤的标题（每行一个）。以 * 结尾按前缀匹配，写成 /pattern/ 时按正则表达式匹配",
+    taxonomyRules: "Taxonomy 规则",
+    taxonomyRulesDesc:
+      "每行一条规则：'cat -> categories' 将 cat/ 下的标签（例如 #cat/news）归入 categories",
+    tagAliases: "标签重命名",
+    tagAliasesDesc:
+      "每行一条，例如 'js -> javascript'。匹配时忽略大小写，目标为空时删除该标签",
+    excludedTags: "排除的标签",
+    excludedTagsDesc:
+      "只在 vault 中使用、不发布的标签，每行一个，其下的嵌套标签也会被排除",
+    lowercaseTags: "标签转为小写",
+    lowercaseTagsDesc: "标签和其他 taxonomy 词条统一使用小写",
+    nestedTagMode: "嵌套标签",
+    nestedTagModeDesc: "#lang/rust 这类标签写入 Hugo 的方式",
+    keepInlineTags: "在正文中保留内联标签",
+    keepInlineTagsDesc:
+      "正文中的 #标签 保留在文字中而不是删除，排除的标签始终删除",
+    stripComments: "删除 Obsidian 注释",
+    stripCommentsDesc: "删除行内或跨行的 %% 注释 %%",
+    privateMarkers: "删除私有块",
+    privateMarkersDesc:
+      "删除 <!-- private --> 与 <!-- /private --> 两行之间的全部内容",
+    privateTag: "私有标签",
+    privateTagDesc:
+      "带有此标签的标题（例如 ## 笔记 #private）及其下的内容会被删除，留空则不启用",
+    redactions: "文本替换",
+    redactionsDesc:
+      "每行一个正则表达式，可以在后面加上 ' -> 替换文字'。输出中匹配的内容会被替换（默认为 [redacted]）",
+    secretPatterns: "敏感信息规则",
+    secretPatternsDesc: "每行一个正则表达式，输出中仍然匹配时在同步结果中警告",
+    linkStyle: "笔记链接格式",
+    linkStyleDesc:
+      "指向已发布笔记的 [[wikilink]] 转换为 relref 短代码或普通链接",
+    unpublishedLinks: "未发布笔记的链接",
+    unpublishedLinksDesc:
+      "仅保留链接文字，或直接移除指向未发布或不存在的笔记的链接",
+    convertBlockReferences: "链接块引用",
+    convertBlockReferencesDesc:
+      "[[笔记#^块ID]] 链接到目标文章中该块的锚点，而不是页面顶部",
+    convertSameNoteLinks: "转换页内链接",
+    convertSameNoteLinksDesc:
+      "将 [[#标题]] 和 [[#^块ID]] 转换为指向同一页面锚点的链接",
+    convertBlockIds: "转换块 ID",
+    convertBlockIdsDesc: "将行尾的 ^块ID 替换为 HTML 锚点，供块引用链接",
+    convertHighlights: "转换高亮",
+    convertHighlightsDesc: "将 ==高亮== 转换为 <mark>高亮</mark>",
+    convertTaskStates: "规范任务状态",
+    convertTaskStatesDesc:
+      "将 - [/]、- [>] 等自定义任务状态转换为未完成的复选框，已取消的任务 - [-] 转换为已完成",
+    publishFlag: "发布标记",
+    publishFlagDesc:
+      "frontmatter 中该键为 true 的笔记才会发布（留空则不要求发布标记）",
+    includeFolders: "包含的文件夹",
+    includeFoldersDesc:
+      "只发布这些文件夹中的笔记（每行一个，留空表示整个仓库）",
+    excludeFolders: "排除的文件夹",
+    excludeFoldersDesc: "不发布这些文件夹中的笔记（每行一个）",
+    requiredTags: "必需的标签",
+    requiredTagsDesc: "只发布至少包含其中一个标签的笔记（每行一个）",
+    watchMode: "保存时自动同步",
+    watchModeDesc:
+      "可发布的笔记修改后自动重新同步，重命名时移动输出，删除时移除输出",
+    watchDelay: "自动同步延迟",
+    watchDelayDesc: "最后一次修改后等待多少秒再同步",
+    hugoServerCommand: "Hugo 预览服务器命令",
+    hugoServerCommandDesc: "启动预览服务器的命令，在站点的 Hugo 路径中运行",
+    calloutPreset: "Callout 样式",
+    calloutPresetDesc:
+      "Obsidian callout（> [!type] 标题）转换为 Hugo 主题使用的格式",
+    calloutTemplate: "自定义 Callout 模板",
+    calloutTemplateDesc:
+      "用于自定义样式。可用变量：{type}、{title}、{content}、{open}、{openAttr}；\\n 表示换行",
+    calloutTemplates: "按类型设置 Callout 模板",
+    calloutTemplatesDesc:
+      "为特定类型的 callout 覆盖模板，每行一个，格式为 类型: 模板",
+    foldableAsDetails: "可折叠 Callout 转为 <details>",
+    foldableAsDetailsDesc:
+      "将可折叠的 callout（[!type]+ / [!type]-）转换为 <details> 块",
+    embedDepth: "嵌入笔记展开深度",
+    embedDepthDesc:
+      "将 ![[笔记]]、![[笔记#标题]] 和 ![[笔记#^块]] 嵌入内容展开到正文中的最大深度（0 表示不展开）。不发布的笔记保留为普通链接",
+    sizedImageStyle: "带尺寸图片的输出方式",
+    sizedImageStyleDesc:
+      "带尺寸的图片（![[image.png|300]] 或 |300x200）输出为 <img> 标签或 figure 短代码",
+    pdfShortcode: "PDF 嵌入短代码",
+    pdfShortcodeDesc:
+      "嵌入 PDF 时使用的短代码，以 url 参数调用（留空则输出下载链接）",
+    attachmentNaming: "附件命名方式",
+    attachmentNamingDesc:
+      "保留原文件名（同名但内容不同的文件会加上哈希后缀），或始终按内容哈希命名附件",
+    imageMaxWidth: "图片最大宽度",
+    imageMaxWidthDesc:
+      "宽度超过该值的 PNG/JPEG/WebP 图片会被缩小（0 表示不缩放）",
+    convertToWebp: "图片转换为 WebP",
+    convertToWebpDesc:
+      "将 PNG/JPEG 图片重新编码为 WebP，处理结果缓存在插件目录中",
+    frontMatterFormat: "Front Matter 格式",
+    frontMatterFormatDesc:
+      "以 YAML（---）、TOML（+++）或 JSON 格式写入 front matter",
+    frontMatterPreset: "Front Matter 预设",
+    frontMatterPresetDesc: "将指定主题的 front matter 模板载入下方编辑框",
+    frontMatterTemplate: "Front Matter 模板",
+    frontMatterTemplateDesc:
+      "添加到每篇文章的 YAML（笔记自身的 front matter 优先）。可用变量：{{title}}、{{date}}、{{created}}、{{modified}}、{{firstImage}}、{{tags}}、{{description}}、{{author}}、{{wordCount}}、{{frontmatter.key}}。值为空的键会被省略",
+    siteName: "站点",
+    siteNameDesc:
+      "Hugo 站点名称，供路由规则和 frontmatter 中的 hugo_site 使用，第一个站点为默认站点",
+    addSite: "添加站点",
+    removeSite: "删除站点",
+    multilingualMode: "多语言输出",
+    multilingualModeDesc:
+      '将 frontmatter 中带有 lang 的笔记作为翻译输出：同一页面包中的 index.<lang>.md，或按语言区分的 content 目录。具有相同 translationKey 的笔记，或通过 translationOf: "[[Note]]" 指向原文的笔记，共用同一个 slug 和 section',
+    defaultLanguage: "默认语言",
+    defaultLanguageDesc:
+      "没有 lang 的笔记使用的语言，其他语言的页面 URL 带有 /<lang>/ 前缀",
+    gitEnabled: "同步后提交到 git",
+    gitEnabledDesc: "同步后显示插件在此站点中改动的文件的 git 状态，并提供提交",
+    gitRemote: "Git 远程仓库",
+    gitRemoteDesc: "提交后推送到的远程仓库，留空则只提交不推送",
+    postSyncHooks: "同步后钩子",
+    postSyncHooksDesc:
+      "每次同步后在 Hugo 路径中运行的 shell 命令，每行一个，例如 hugo --minify。HUGO_SYNC_FILES 和 HUGO_SYNC_REMOVED 列出改动的文件",
+    staticPath: "Static 目录",
+    staticPathDesc: "相对于 Hugo 项目的 static 目录，图片保存到 static 时使用",
+    routingRules: "路由规则",
+    routingRulesDesc:
+      '每行一条规则："folder: Notes/TIL -> blog/til" 或 "tag: docs -> docs"，将匹配的笔记发布到指定站点及其 content 目录下的 section。使用第一条匹配的规则；笔记 frontmatter 中的 hugo_site 和 section 优先于规则',
+    slugStrategy: "Slug 生成方式",
+    slugStrategyDesc:
+      "新发布笔记的页面目录（或文件）名的生成方式，frontmatter 中的 slug 优先。除原始名称外 slug 只包含 ASCII 字符：无法音译的字符（例如中文、日文）会被去掉，音译方式用标题的短哈希代替这些字符，去掉后为空的标题使用该哈希。生成的 slug 已被同一 section 中的其他笔记使用时，会加上笔记路径的短哈希。发布后重命名笔记不会改变 slug，URL 保持不变",
   },
   notices: {
     iconNotice: "同步到 Hugo",
@@ -57,8 +561,77 @@ const zh: LanguageStrings = {
     syncSuccess: "已同步 {0} 个文件到 Hugo",
     syncError: "同步到 Hugo 时出错：{0}",
     noFilesSelected: "没有选择要同步的文件",
-    syncResult: "同步完成。总计: {0}, 成功: {1}, 失败: {2}",
+    syncResult: "同步完成。总计: {0}, 成功: {1}, 失败: {2}, 未变化: {3}",
     syncErrors: "同步过程中发生错误",
+    secretWarning: "输出中仍有匹配敏感信息规则的内容",
+    syncAllCommandName: "将所有可发布的笔记同步到 Hugo",
+    syncFolderMenu: "将文件夹同步到 Hugo",
+    unpublishCommandName: "从 Hugo 中取消发布选中的文件",
+    pruneCommandName: "清理 Hugo 中的孤立输出",
+    startServerCommandName: "启动 Hugo 预览服务器",
+    stopServerCommandName: "停止 Hugo 预览服务器",
+    showLogCommandName: "显示 Hugo 日志",
+    logTitle: "Hugo 日志",
+    logClear: "清空",
+    showHistoryCommandName: "显示同步历史",
+    historyTitle: "Hugo 同步历史",
+    historyEmpty: "还没有同步记录",
+    historyManual: "手动同步",
+    historyWatch: "自动同步",
+    historySummary: "新建：{0}，更新：{1}，未变化：{2}，失败：{3}",
+    historyCreated: "新建",
+    historyUpdated: "更新",
+    historySkipped: "未变化",
+    historyFailed: "失败",
+    historyRetryFailed: "重试失败的笔记",
+    historyOpenOutput: "打开输出文件",
+    historyNothingToRetry: "失败的笔记都已不存在",
+    historyOutputMissing: "找不到输出文件：{0}",
+    historyOpenFailed: "无法打开 {0}：{1}",
+    historyHint: "完整的错误信息见同步历史（“显示同步历史”）",
+    serverRunning: "Hugo 服务器运行中：{0}",
+    serverStopped: "Hugo 服务器未运行",
+    serverStart: "启动",
+    serverStop: "停止",
+    serverOpen: "打开",
+    serverError: "Hugo 构建错误：{0}",
+    serverNoHugoPath: "启动服务器前请先设置站点“{0}”的 Hugo 路径",
+    hookFailed: "{0} 的同步后钩子失败：{1}（退出码 {2}）",
+    nothingToUnpublish: "选中的文件都没有同步到 Hugo",
+    unpublishResult: "已从 Hugo 中移除 {0} 篇文章",
+    nothingToPrune: "没有找到孤立的 Hugo 输出",
+    pruneTitle: "清理 Hugo 输出",
+    pruneMessage: "以下输出的源笔记已被删除或标记为不发布，这些文件将被删除：",
+    pruneResult: "已从 Hugo 中清理 {0} 篇文章",
+    confirmDelete: "删除",
+    siteNameInvalid: "站点名称“{0}”为空或已被其他站点使用",
+    removeSiteTitle: "删除站点 {0}",
+    removeSiteMessage:
+      "以下笔记已发布到该站点，它们的记录将从同步清单中移除，Hugo 项目中的输出文件会保留：",
+    confirmRemoveSite: "删除",
+    cancel: "取消",
+    previewCommandName: "预览当前文件的 Hugo 输出",
+    previewTitle: "Hugo 输出预览",
+    previewOutput: "生成的文件",
+    previewDiff: "与磁盘上文件的差异",
+    previewNewFile: "文件尚不存在，将会新建。",
+    previewNoChanges: "没有变化。",
+    previewImages: "将要拷贝的图片",
+    previewNoImages: "没有图片。",
+    previewConfirm: "写入 Hugo",
+    gitTitle: "提交 {0} 的改动",
+    gitStatus: "改动的文件",
+    gitMessage: "提交信息",
+    gitCommit: "提交",
+    gitCommitAndPush: "提交并推送",
+    gitNotRepository: "{0} 不在 git 仓库中",
+    gitCommitted: "已在 {1} 中提交 {0} 个文件",
+    gitPushed: "已将 {0} 推送到 {1}",
+    gitFailed: "{0} 的 git 操作失败：{1}",
+    watchIdle: "Hugo：已同步",
+    watchPending: "Hugo：{0} 个待同步",
+    watchSyncing: "Hugo：同步中…",
+    watchError: "Hugo：{0} 个失败",
   },
 };
 
@@ -0,0 +1,101 @@
+export type LinkStyle = "relref" | "permalink";
+export type UnpublishedLinkMode = "text" | "remove";
+
+export interface WikiLinkTarget {
+  // 目标笔记是否也会发布到 Hugo
+  published: boolean;
+  // 相对于 Hugo content 目录的路径，用于 relref
+  contentPath: string;
+  // 目标页面的站内 URL，例如 /posts/my-note/
+  permalink: string;
+  // 目标笔记的语言与当前笔记不同时，relref 需要指定语言
+  lang?: string;
+}
+
+export interface WikiLinkOptions {
+  linkStyle: LinkStyle;
+  unpublishedLinks: UnpublishedLinkMode;
+  // 块引用 [[Note#^id]] 链接到目标页面中块 ID 生成的锚点
+  convertBlockReferences: boolean;
+}
+
+// [[Note]]、[[Note|alias]]、[[Note#Heading]]，不匹配 ![[embed]]
+const wikiLinkRegex =
+  /(?<!!)\[\[([^\[\]|#]+)(#[^\[\]|]*)?(?:\|([^\[\]]*))?\]\]/g;
+
+/**
+ * Rewrite Obsidian wikilinks between notes into Hugo links.
+ * `resolve` returns undefined for links that should be left untouched (links
+ * to non-note files); links to missing notes resolve to an unpublished
+ * target and follow `unpublishedLinks`. `wrap` is applied to every
+ * generated markdown link, e.g. to protect it from later line processing.
+ */
+export function convertWikiLinks(
+  line: string,
+  resolve: (linkpath: string) => WikiLinkTarget | undefined,
+  options: WikiLinkOptions,
+  wrap: (link: string) => string = (link) => link
+): string {
+  return line.replace(
+    wikiLinkRegex,
+    (match, linkpath: string, subpath?: string, alias?: string) => {
+      const target = resolve(linkpath.trim());
+      if (!target) {
+        return match;
+      }
+
+      const heading = subpath ? subpath.slice(1).trim() : "";
+      const text =
+        alias?.trim() ||
+        (heading ? `${linkpath.trim()} > ${heading}` : linkpath.trim());
+
+      if (!target.published) {
+        return options.unpublishedLinks === "text" ? text : "";
+      }
+
+      // 未开启块引用时只链接到页面本身
+      let anchor = "";
+      if (heading.startsWith("^")) {
+        anchor = options.convertBlockReferences
+          ? "#" + blockAnchor(heading.slice(1))
+          : "";
+      } else if (heading) {
+        anchor = "#" + headingAnchor(heading);
+      }
+      let href = target.permalink + anchor;
+      if (options.linkStyle === "relref") {
+        href = target.lang
+          ? `{{< relref path="${target.contentPath}${anchor}" lang="${target.lang}" >}}`
+          : `{{< relref "${target.contentPath}${anchor}" >}}`;
+      }
+      return wrap(`[${text}](${href})`);
+    }
+  );
+}
+
+/**
+ * Generate the heading id Hugo's Goldmark renderer assigns by default
+ * (the "github" autoHeadingIDType).
+ */
+export function headingAnchor(heading: string): string {
+  return heading
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, "")
+    .replace(/\s/g, "-");
+}
+
+/**
+ * The HTML id given to an Obsidian block id, keeping Obsidian's own `^id`
+ * subpath syntax in links.
+ */
+export function blockAnchor(id: string): string {
+  return "^" + id;
+}
+
+/**
+ * Approximate Hugo's urlize for path segments: lower case, spaces to dashes.
+ */
+export function hugoUrlize(segment: string): string {
+  return segment.trim().toLowerCase().replace(/\s+/g, "-");
+}
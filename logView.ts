@@ -0,0 +1,123 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import type HugoSyncPlugin from "./main";
+
+export const LOG_VIEW_TYPE = "hugo-sync-log";
+
+// 日志面板最多保留的行数
+const MAX_LINES = 2000;
+
+export type LogLevel = "info" | "error";
+
+export interface LogLine {
+  // 来源，例如 "hugo server" 或钩子命令
+  source: string;
+  text: string;
+  level: LogLevel;
+}
+
+/**
+ * Output of the Hugo server and the post-sync hooks, kept while the plugin
+ * is loaded so the log panel can be opened at any time.
+ */
+export class LogBuffer {
+  lines: LogLine[] = [];
+  private listeners: Set<() => void> = new Set();
+
+  append(source: string, text: string, level?: LogLevel) {
+    for (const line of text.replace(/\r?\n$/, "").split(/\r?\n/)) {
+      this.lines.push({
+        source,
+        text: line,
+        level: level ?? (/\bERROR\b/.test(line) ? "error" : "info"),
+      });
+    }
+    if (this.lines.length > MAX_LINES) {
+      this.lines.splice(0, this.lines.length - MAX_LINES);
+    }
+    this.notify();
+  }
+
+  clear() {
+    this.lines = [];
+    this.notify();
+  }
+
+  // 返回取消监听的函数
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  notify() {
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+}
+
+/**
+ * Side panel with the Hugo server status, its logs and the output of the
+ * post-sync hooks.
+ */
+export class HugoLogView extends ItemView {
+  private unsubscribe: () => void;
+
+  constructor(leaf: WorkspaceLeaf, private plugin: HugoSyncPlugin) {
+    super(leaf);
+  }
+
+  getViewType(): string {
+    return LOG_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return this.plugin.lang.notices.logTitle;
+  }
+
+  getIcon(): string {
+    return "lines-of-text";
+  }
+
+  async onOpen() {
+    this.unsubscribe = this.plugin.log.onChange(() => this.render());
+    this.render();
+  }
+
+  async onClose() {
+    this.unsubscribe?.();
+  }
+
+  private render() {
+    const strings = this.plugin.lang.notices;
+    const server = this.plugin.hugoServer;
+    const { contentEl } = this;
+    contentEl.empty();
+
+    const toolbarEl = contentEl.createDiv({ cls: "hugo-sync-log-toolbar" });
+    toolbarEl.createSpan({
+      text: server.running
+        ? strings.serverRunning.replace("{0}", server.url || server.site || "")
+        : strings.serverStopped,
+    });
+    const serverButton = toolbarEl.createEl("button", {
+      text: server.running ? strings.serverStop : strings.serverStart,
+    });
+    serverButton.onclick = () =>
+      server.running ? server.stop() : this.plugin.startHugoServer();
+    if (server.url) {
+      toolbarEl.createEl("button", { text: strings.serverOpen }).onclick = () =>
+        window.open(server.url);
+    }
+    toolbarEl.createEl("button", { text: strings.logClear }).onclick = () =>
+      this.plugin.log.clear();
+
+    const logEl = contentEl.createEl("pre", { cls: "hugo-sync-log" });
+    for (const line of this.plugin.log.lines) {
+      logEl.createDiv({
+        text: `[${line.source}] ${line.text}`,
+        cls: line.level === "error" ? "hugo-sync-log-error" : "",
+      });
+    }
+    logEl.scrollTop = logEl.scrollHeight;
+  }
+}
@@ -6,54 +6,133 @@ import {
   TFile,
   Notice,
   TAbstractFile,
+  TFolder,
+  FileSystemAdapter,
+  Menu,
+  getAllTags,
+  DropdownComponent,
 } from "obsidian";
 import * as fs from "fs";
 import * as path from "path";
 import { languages, LanguageStrings } from "./lang";
-
-interface HugoSyncSettings {
-  hugoPath: string;
-  contentPath: string;
-  // image to static 配置项，启用后markdown会默认将图片保存在static文件夹下
-  // 关闭时，将会以markdown 文件名新建文件夹，原markdown 重命名为 index.md，
-  // 图片保存在同目录 images 文件夹下
-  imageToStatic: boolean;
-  staticPath: string;
-  filteredHeaders: string[];
+import { ConfirmModal } from "./confirmModal";
+import { FRONT_MATTER_PRESETS } from "./frontMatterTemplate";
+import {
+  ConverterSettings,
+  DEFAULT_CONVERTER_SETTINGS,
+  HugoConverter,
+  normalizeSettings,
+  OutputChange,
+  VaultResolver,
+} from "./converter";
+import { AutoSync } from "./autoSync";
+import { PreviewModal } from "./previewModal";
+import { GitCommitModal } from "./gitCommitModal";
+import {
+  buildCommitMessage,
+  changedPaths,
+  CommandRunner,
+  GitRepository,
+  processRunner,
+} from "./gitSync";
+import { runPostSyncHooks } from "./hooks";
+import { HugoServer } from "./hugoServer";
+import { HugoLogView, LogBuffer, LOG_VIEW_TYPE } from "./logView";
+import { HISTORY_VIEW_TYPE, HugoHistoryView } from "./historyView";
+import {
+  failedSyncResult,
+  FileSyncResult,
+  fileSyncResult,
+  SyncHistory,
+} from "./syncHistory";
+import { SyncManifest } from "./syncManifest";
+import { FrontMatterFormat } from "./frontmatter";
+import { isExcluded } from "./publishRules";
+import { SizedImageStyle } from "./attachments";
+import { AttachmentNaming } from "./imagePipeline";
+import { CalloutPreset, parseCalloutTemplates } from "./callouts";
+import { SlugStrategy } from "./slugs";
+import {
+  createSiteProfile,
+  formatRoutingRules,
+  MultilingualMode,
+  parseRoutingRules,
+  SiteProfile,
+} from "./sites";
+import { LinkStyle, UnpublishedLinkMode } from "./links";
+import { formatRedactions, parseRedactions } from "./privacy";
+import {
+  formatTagAliases,
+  formatTaxonomyRules,
+  NestedTagMode,
+  parseTagAliases,
+  parseTaxonomyRules,
+} from "./taxonomy";
+
+interface HugoSyncSettings extends ConverterSettings {
   language: string;
-  descriptionLines: number;
-  descriptionMaxLength: number;
-  useFirstImageAsCover: boolean;
-  authorName: string;
-}
-
-interface CopyImageItem {
-  originalPath: string;
-  newPath: string;
-  newName: string;
+  // 监听模式：保存后自动同步，watchDelay 为防抖秒数
+  watchMode: boolean;
+  watchDelay: number;
+  // 在站点的 hugoPath 中启动预览服务器的命令
+  hugoServerCommand: string;
 }
 
 const DEFAULT_SETTINGS: HugoSyncSettings = {
-  hugoPath: "",
-  contentPath: "content/posts",
-  imageToStatic: false,
-  staticPath: "static",
-  filteredHeaders: [],
+  ...DEFAULT_CONVERTER_SETTINGS,
   language: "en",
-  descriptionLines: 0,
-  descriptionMaxLength: 120,
-  useFirstImageAsCover: false,
-  authorName: "",
+  watchMode: false,
+  watchDelay: 2,
+  hugoServerCommand: "hugo server --buildDrafts",
 };
 
 export default class HugoSyncPlugin extends Plugin {
   settings: HugoSyncSettings;
   lang: LanguageStrings;
+  syncManifest: SyncManifest;
+  syncHistory: SyncHistory;
+  converter: HugoConverter;
+  autoSync: AutoSync;
+  commandRunner: CommandRunner = processRunner;
+  log: LogBuffer = new LogBuffer();
+  hugoServer: HugoServer;
 
   async onload() {
     await this.loadSettings();
     this.lang = languages[this.settings.language] || languages.en;
 
+    this.syncManifest = new SyncManifest(
+      this.app.vault.adapter,
+      `${this.manifest.dir}/sync-manifest.json`
+    );
+    await this.syncManifest.load();
+    this.syncHistory = new SyncHistory(
+      this.app.vault.adapter,
+      `${this.manifest.dir}/sync-history.json`
+    );
+    await this.syncHistory.load();
+    this.converter = new HugoConverter(
+      this.settings,
+      this.getVaultResolver(),
+      this.syncManifest,
+      path.join(
+        (this.app.vault.adapter as FileSystemAdapter).getBasePath(),
+        this.manifest.dir || "",
+        "image-cache"
+      )
+    );
+    this.autoSync = new AutoSync(this);
+    this.hugoServer = new HugoServer(
+      this.log,
+      (line) =>
+        new Notice(this.lang.notices.serverError.replace("{0}", line), 10000)
+    );
+    this.registerView(LOG_VIEW_TYPE, (leaf) => new HugoLogView(leaf, this));
+    this.registerView(
+      HISTORY_VIEW_TYPE,
+      (leaf) => new HugoHistoryView(leaf, this)
+    );
+
     try {
       // Change the icon to 'refresh-cw'
       this.addRibbonIcon(
@@ -73,53 +152,284 @@ export default class HugoSyncPlugin extends Plugin {
       callback: () => this.syncSelectedToHugo(),
     });
 
+    this.addCommand({
+      id: "preview-hugo-output",
+      name: this.lang.notices.previewCommandName,
+      callback: () => this.previewActiveFile(),
+    });
+
+    this.addCommand({
+      id: "sync-all-to-hugo",
+      name: this.lang.notices.syncAllCommandName,
+      callback: () => this.syncFiles(this.getPublishableFiles()),
+    });
+
+    this.addCommand({
+      id: "unpublish-selected-from-hugo",
+      name: this.lang.notices.unpublishCommandName,
+      callback: () => this.unpublishSelected(),
+    });
+
+    this.addCommand({
+      id: "prune-hugo-outputs",
+      name: this.lang.notices.pruneCommandName,
+      callback: () => this.pruneOrphans(),
+    });
+
+    this.addCommand({
+      id: "start-hugo-server",
+      name: this.lang.notices.startServerCommandName,
+      callback: () => this.startHugoServer(),
+    });
+
+    this.addCommand({
+      id: "stop-hugo-server",
+      name: this.lang.notices.stopServerCommandName,
+      callback: () => this.hugoServer.stop(),
+    });
+
+    this.addCommand({
+      id: "show-hugo-log",
+      name: this.lang.notices.showLogCommandName,
+      callback: () => this.showView(LOG_VIEW_TYPE),
+    });
+
+    this.addCommand({
+      id: "show-sync-history",
+      name: this.lang.notices.showHistoryCommandName,
+      callback: () => this.showView(HISTORY_VIEW_TYPE),
+    });
+
+    this.registerEvent(
+      this.app.workspace.on("file-menu", (menu, file) =>
+        this.addFileMenuItems(menu, [file])
+      )
+    );
+    // files-menu 在多选文件时触发
+    this.registerEvent(
+      this.app.workspace.on(
+        // @ts-ignore
+        "files-menu",
+        (menu: Menu, files: TAbstractFile[]) =>
+          this.addFileMenuItems(menu, files)
+      )
+    );
+
+    // 已发布笔记重命名时更新同步清单，监听模式下同时移动输出目录
+    this.registerEvent(
+      this.app.vault.on("rename", (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.handleRename(file, oldPath);
+        }
+      })
+    );
+
     this.addSettingTab(new HugoSyncSettingTab(this.app, this));
   }
 
+  onunload() {
+    this.hugoServer?.stop();
+    this.app.workspace.detachLeavesOfType(LOG_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(HISTORY_VIEW_TYPE);
+  }
+
   async loadSettings() {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settings = normalizeSettings(
+      DEFAULT_SETTINGS,
+      (await this.loadData()) || {}
+    );
     this.lang = languages[this.settings.language] || languages.en;
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
     this.lang = languages[this.settings.language] || languages.en;
+    this.autoSync?.refresh();
+  }
+
+  /**
+   * Rename a site. Manifest entries and routing rules that point at the old
+   * name follow the site.
+   */
+  async renameSite(site: SiteProfile, name: string) {
+    for (const entry of Object.values(this.syncManifest.entries)) {
+      if (entry.site === site.name) {
+        entry.site = name;
+      }
+    }
+    for (const rule of this.settings.routingRules) {
+      if (rule.site === site.name) {
+        rule.site = name;
+      }
+    }
+    for (const run of this.syncHistory.runs) {
+      for (const result of run.results) {
+        if (result.site === site.name) {
+          result.site = name;
+        }
+      }
+    }
+    site.name = name;
+    await this.syncManifest.save();
+    await this.syncHistory.save();
+    await this.saveSettings();
+  }
+
+  /**
+   * Remove a site after confirmation. Notes published to it are dropped
+   * from the manifest; their output stays in the Hugo project.
+   */
+  async removeSite(site: SiteProfile, onRemoved: () => void) {
+    const { sites } = this.settings;
+    // 没有记录站点的旧清单记录属于默认站点
+    const published = Object.keys(this.syncManifest.entries).filter(
+      (vaultPath) =>
+        (this.syncManifest.entries[vaultPath].site || sites[0].name) ===
+        site.name
+    );
+    const remove = async () => {
+      for (const vaultPath of published) {
+        this.syncManifest.delete(vaultPath);
+      }
+      sites.splice(sites.indexOf(site), 1);
+      await this.syncManifest.save();
+      await this.saveSettings();
+      onRemoved();
+    };
+    if (published.length === 0) {
+      await remove();
+      return;
+    }
+    new ConfirmModal(this.app, {
+      title: this.lang.notices.removeSiteTitle.replace("{0}", site.name),
+      message: this.lang.notices.removeSiteMessage,
+      items: published,
+      confirmText: this.lang.notices.confirmRemoveSite,
+      cancelText: this.lang.notices.cancel,
+      onConfirm: remove,
+    }).open();
+  }
+
+  addFileMenuItems(menu: Menu, files: TAbstractFile[]) {
+    const isFolder = files.length === 1 && files[0] instanceof TFolder;
+    const notes = files.filter(
+      (file): file is TFile => file instanceof TFile && file.extension === "md"
+    );
+    if (!isFolder && notes.length === 0) {
+      return;
+    }
+
+    menu.addItem((item) =>
+      item
+        .setTitle(
+          isFolder
+            ? this.lang.notices.syncFolderMenu
+            : this.lang.notices.iconNotice
+        )
+        .setIcon("refresh-cw")
+        .onClick(() => {
+          // 文件夹只同步符合发布规则的笔记，直接选中的笔记照常同步
+          const folderNotes: TFile[] = [];
+          for (const file of files) {
+            if (file instanceof TFolder) {
+              folderNotes.push(...this.getPublishableFiles(file));
+            }
+          }
+          this.syncFiles([...notes, ...folderNotes]);
+        })
+    );
+  }
+
+  getPublishableFiles(folder?: TFolder): TFile[] {
+    return this.app.vault
+      .getMarkdownFiles()
+      .filter(
+        (file) =>
+          (!folder ||
+            folder.isRoot() ||
+            file.path.startsWith(folder.path + "/")) &&
+          this.converter.isPublishableFile(file)
+      );
   }
 
   async syncSelectedToHugo() {
-    const selectedFiles = this.getSelectedFiles();
+    await this.syncFiles(this.getSelectedFiles());
+  }
+
+  async syncFiles(files: TFile[]) {
+    const selectedFiles = Array.from(new Set(files));
     if (selectedFiles.length === 0) {
       new Notice(this.lang.notices.noFilesSelected);
       return;
     }
 
     let successCount = 0;
+    let skippedCount = 0;
     let failCount = 0;
     let errorMessages = [];
+    const secretWarnings: string[] = [];
+    const synced: TFile[] = [];
+    const results: FileSyncResult[] = [];
+    const time = new Date().toISOString();
+    const changeStart = this.converter.changes.length;
 
+    this.converter.syncBatch = new Set(selectedFiles.map((file) => file.path));
     for (const file of selectedFiles) {
       try {
-        await this.syncFileToHugo(file);
-        successCount++;
+        const prepared = await this.converter.syncFileToHugo(file);
+        const { status, secrets } = prepared;
+        results.push(fileSyncResult(prepared));
+        if (status === "skipped") {
+          skippedCount++;
+        } else {
+          successCount++;
+        }
+        synced.push(file);
+        if (secrets.length > 0) {
+          secretWarnings.push(`${file.name}: ${secrets.join(", ")}`);
+        }
       } catch (error) {
         failCount++;
         errorMessages.push(`${file.name}: ${error.message}`);
+        results.push(failedSyncResult(file.path, error));
         console.error(`Error syncing file ${file.name}:`, error);
       }
     }
+    this.converter.syncBatch.clear();
+    await this.syncManifest.save();
+    await this.syncHistory.add({ time, trigger: "manual", results });
+    const hookFailures = await this.runPostSyncHooks(
+      this.converter.changes.slice(changeStart)
+    );
 
     // 创建详细的结果消息
     let resultMessage = this.lang.notices.syncResult
       .replace("{0}", selectedFiles.length.toString())
       .replace("{1}", successCount.toString())
-      .replace("{2}", failCount.toString());
+      .replace("{2}", failCount.toString())
+      .replace("{3}", skippedCount.toString());
 
     if (failCount > 0) {
       resultMessage +=
         "\n\n" +
         this.lang.notices.syncErrors +
         ":\n" +
-        errorMessages.join("\n");
+        errorMessages.join("\n") +
+        "\n\n" +
+        this.lang.notices.historyHint;
+    }
+    // 输出中仍然匹配 secretPatterns 的笔记
+    if (secretWarnings.length > 0) {
+      resultMessage +=
+        "\n\n" +
+        this.lang.notices.secretWarning +
+        ":\n" +
+        secretWarnings.join("\n");
+      console.warn("Possible secrets in Hugo output:", secretWarnings);
+    }
+    // 钩子（例如 hugo 构建）的失败与同步结果一起显示
+    if (hookFailures.length > 0) {
+      resultMessage += "\n\n" + hookFailures.join("\n\n");
     }
 
     // 显示结果通知
@@ -129,358 +439,403 @@ export default class HugoSyncPlugin extends Plugin {
     if (failCount > 0) {
       console.error("Sync errors:", errorMessages);
     }
+    this.openPreviewPage(synced);
+    await this.offerGitCommit();
   }
 
-  getSelectedFiles(): TFile[] {
-    const selectedFiles: TFile[] = [];
-
-    // 获取文浏览器中选中的文件
-    const fileExplorer = this.app.workspace.getLeavesOfType("file-explorer")[0];
-    if (fileExplorer && fileExplorer.view) {
-      // @ts-ignore
-      const selectedItems = fileExplorer.view.fileItems;
-      if (selectedItems) {
-        for (const item of Object.values(selectedItems)) {
-          // @ts-ignore
-          if (
-            item &&
-            item.file instanceof TFile &&
-            item.titleEl &&
-            item.titleEl.classList &&
-            item.titleEl.classList.contains("is-selected")
-          ) {
-            selectedFiles.push(item.file);
-          }
-        }
-      }
-    }
-
-    // 如果文件浏览器中没有选中文件，则使用当前活动文件
+  async unpublishSelected() {
+    const selectedFiles = this.getSelectedFiles().filter((file) =>
+      this.syncManifest.get(file.path)
+    );
     if (selectedFiles.length === 0) {
-      const activeFile = this.app.workspace.getActiveFile();
-      if (activeFile) {
-        selectedFiles.push(activeFile);
-      }
+      new Notice(this.lang.notices.nothingToUnpublish);
+      return;
     }
 
-    return selectedFiles;
+    const changeStart = this.converter.changes.length;
+    for (const file of selectedFiles) {
+      this.converter.removeSyncedOutput(file.path);
+    }
+    await this.syncManifest.save();
+    const hookFailures = await this.runPostSyncHooks(
+      this.converter.changes.slice(changeStart)
+    );
+    new Notice(
+      [
+        this.lang.notices.unpublishResult.replace(
+          "{0}",
+          selectedFiles.length.toString()
+        ),
+        ...hookFailures,
+      ].join("\n\n"),
+      hookFailures.length > 0 ? 10000 : undefined
+    );
+    await this.offerGitCommit();
   }
 
-  async syncFileToHugo(file: TFile) {
-    const content = await this.app.vault.read(file);
-    const { hugoContent, imageList } = this.convertToHugoFormat(
-      content,
-      file.name,
-      file.path
+  async pruneOrphans() {
+    // 源笔记已删除、被标记为不发布或位于排除文件夹中的输出
+    const orphans = Object.keys(this.syncManifest.entries).filter(
+      (vaultPath) => {
+        const file = this.app.vault.getAbstractFileByPath(vaultPath);
+        if (!(file instanceof TFile)) {
+          return true;
+        }
+        const frontMatter =
+          this.app.metadataCache.getFileCache(file)?.frontmatter;
+        return isExcluded(file.path, frontMatter, this.settings);
+      }
     );
+    if (orphans.length === 0) {
+      new Notice(this.lang.notices.nothingToPrune);
+      return;
+    }
+
+    const items: string[] = [];
+    for (const vaultPath of orphans) {
+      items.push(...this.converter.getRemovablePaths(vaultPath, orphans));
+    }
 
-    const hugoFilePath = (() => {
-      if (this.settings.imageToStatic) {
-        return path.join(
-          this.settings.hugoPath,
-          this.settings.contentPath,
-          file.name
+    new ConfirmModal(this.app, {
+      title: this.lang.notices.pruneTitle,
+      message: this.lang.notices.pruneMessage,
+      items,
+      confirmText: this.lang.notices.confirmDelete,
+      cancelText: this.lang.notices.cancel,
+      onConfirm: async () => {
+        const changeStart = this.converter.changes.length;
+        for (const vaultPath of orphans) {
+          this.converter.removeSyncedOutput(vaultPath);
+        }
+        await this.syncManifest.save();
+        const hookFailures = await this.runPostSyncHooks(
+          this.converter.changes.slice(changeStart)
         );
-      } else {
-        // 为否的情况下还需要额外创建目录
-        const dir = path.join(
-          this.settings.hugoPath,
-          this.settings.contentPath,
-          file.name.replace(".md", "")
+        new Notice(
+          [
+            this.lang.notices.pruneResult.replace(
+              "{0}",
+              orphans.length.toString()
+            ),
+            ...hookFailures,
+          ].join("\n\n"),
+          hookFailures.length > 0 ? 10000 : undefined
         );
-        fs.mkdirSync(dir, { recursive: true });
+        await this.offerGitCommit();
+      },
+    }).open();
+  }
 
-        return path.join(dir, "index.md");
+  /**
+   * Run the post-sync hooks for a batch of changes. Output goes to the log
+   * panel; the returned messages describe the failed hooks.
+   */
+  async runPostSyncHooks(changes: OutputChange[]): Promise<string[]> {
+    const results = await runPostSyncHooks(
+      this.commandRunner,
+      this.settings.sites,
+      changes,
+      (result) => {
+        const level = result.code === 0 ? "info" : "error";
+        this.log.append(result.site, `$ ${result.command}`, level);
+        if (result.output) {
+          this.log.append(result.site, result.output, level);
+        }
       }
-    })();
-
-    fs.writeFileSync(hugoFilePath, hugoContent);
-    this.addImagesToHugo(imageList, file.name);
+    );
+    return results
+      .filter((result) => result.code !== 0)
+      .map((result) =>
+        [
+          this.lang.notices.hookFailed
+            .replace("{0}", result.site)
+            .replace("{1}", result.command)
+            .replace("{2}", result.code.toString()),
+          // 只显示输出的最后几行，完整输出在日志面板中
+          ...result.output.trim().split("\n").slice(-5),
+        ].join("\n")
+      );
   }
 
-  async addImagesToHugo(imageList: CopyImageItem[], fileName: string) {
-    // 此方法根据用户配置将图片拷贝到 hugo 的 content 文件夹中
-    // path 的差距已经在 convertToHugoFormat 中处理过了
-    // 此处只需要按顺序拷贝图片到对应的位置
-    for (const image of imageList) {
-      // 检查目标文件是否已存在，如果存在则跳过
-      if (fs.existsSync(image.newPath)) {
-        console.log(`File ${image.newPath} already exists, skipping...`);
-        continue;
-      }
-      // 确保目标目录存在
-      const targetDir = path.dirname(image.newPath);
-      if (!fs.existsSync(targetDir)) {
-        fs.mkdirSync(targetDir, { recursive: true });
-      }
-      // 复制文件
-      fs.copyFileSync(image.originalPath, image.newPath);
+  // 为当前笔记所在的站点启动预览服务器，并打开日志面板
+  async startHugoServer() {
+    const file = this.app.workspace.getActiveFile();
+    const site =
+      file && file.extension === "md"
+        ? this.converter.getRoute(file).site
+        : this.settings.sites[0];
+    if (!site.hugoPath) {
+      new Notice(this.lang.notices.serverNoHugoPath.replace("{0}", site.name));
+      return;
     }
+    this.hugoServer.start(this.settings.hugoServerCommand, site);
+    await this.showView(LOG_VIEW_TYPE);
   }
 
-  convertToHugoFormat(
-    content: string,
-    fileName: string,
-    filePath: string
-  ): { hugoContent: string; imageList: CopyImageItem[] } {
-    const title = fileName.replace(".md", "");
-    const date = new Date().toISOString();
-
-    const tags: string[] = [];
-
-    const lines = content.split("\n");
-    let tagSection = false;
-    let processedContent = [];
-    let currentHeaderLevel = 0;
-    let skipContent = false;
-
-    const symbolOnlyRegex = /^[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>/?]+$/;
-
-    const imagesToCopy: CopyImageItem[] = [];
-
-    let description = "";
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      const trimmedLine = line.trim();
+  // 在右侧栏打开日志或同步历史面板，已打开时直接显示
+  async showView(viewType: string) {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(viewType)[0];
+    if (!leaf) {
+      leaf = workspace.getRightLeaf(false);
+      await leaf.setViewState({ type: viewType, active: true });
+    }
+    workspace.revealLeaf(leaf);
+  }
 
-      // 根据标题层级，判断是否需要跳过该标题下的内容
-      if (trimmedLine.startsWith("##")) {
-        const headerMatch = trimmedLine.match(/^(#+)\s*(.*)/);
-        if (headerMatch) {
-          const headerLevel = headerMatch[1].length;
-          const headerContent = headerMatch[2];
+  // 重新同步历史中失败的笔记，已删除的笔记忽略
+  async retryFailed(paths: string[]) {
+    const files = paths
+      .map((filePath) => this.app.vault.getAbstractFileByPath(filePath))
+      .filter((file): file is TFile => file instanceof TFile);
+    if (files.length === 0) {
+      new Notice(this.lang.notices.historyNothingToRetry);
+      return;
+    }
+    await this.syncFiles(files);
+  }
 
-          if (headerLevel <= currentHeaderLevel) {
-            skipContent = false;
-          }
+  // 用系统默认程序打开同步结果中的输出文件
+  async openOutputFile(result: FileSyncResult) {
+    // 记录中的站点可能已被删除
+    const site = this.settings.sites.find(
+      (site) => site.name === (result.site || this.settings.sites[0].name)
+    );
+    const filePath = path.join(site?.hugoPath || "", result.outputPath || "");
+    if (!site || !result.outputPath || !fs.existsSync(filePath)) {
+      new Notice(
+        this.lang.notices.historyOutputMissing.replace("{0}", filePath)
+      );
+      return;
+    }
+    // electron 由 Obsidian 提供，插件中没有它的类型声明
+    const { shell } = require("electron") as {
+      shell: { openPath(path: string): Promise<string> };
+    };
+    const error = await shell.openPath(filePath);
+    if (error) {
+      new Notice(
+        this.lang.notices.historyOpenFailed
+          .replace("{0}", filePath)
+          .replace("{1}", error)
+      );
+    }
+  }
 
-          if (this.settings.filteredHeaders.includes(headerContent)) {
-            skipContent = true;
-            currentHeaderLevel = headerLevel;
-            continue;
-          }
+  // 预览服务器运行时，在浏览器中打开刚同步的笔记（优先当前笔记）
+  openPreviewPage(synced: TFile[]) {
+    const activeFile = this.app.workspace.getActiveFile();
+    const file = synced.find((note) => note === activeFile) || synced[0];
+    const entry = file && this.syncManifest.get(file.path);
+    if (!entry) {
+      return;
+    }
+    const url = this.hugoServer.pageUrl(
+      this.converter.getSite(entry.site).name,
+      entry.url
+    );
+    if (url) {
+      window.open(url);
+    }
+  }
 
-          currentHeaderLevel = headerLevel;
-        }
+  // 对开启了 git 的站点，显示本次改动文件的状态并提供提交。
+  // 自动同步不会调用，其改动累积到下一次手动同步时一起提交
+  async offerGitCommit() {
+    const changes = this.converter.changes;
+    this.converter.changes = [];
+    for (const site of this.settings.sites) {
+      const siteChanges = changes.filter((change) => change.site === site.name);
+      if (!site.gitEnabled || siteChanges.length === 0) {
+        continue;
       }
-
-      // 检查是否为图片引用
-      const processImageLink = (
-        imagePath: string,
-        line: string,
-        matchText: string,
-        isObsidianImage: boolean
-      ) => {
-        // 检查图片是否为本地文件（不处理网络图片）
-        // https://docs.obsidian.md/Reference/TypeScript+API/Vault
-
-        // 当链接类型为 obsidian 图片时，特殊处理：
-        // 参考 https://forum.obsidian.md/t/how-to-get-full-paths-from-link-text/75146/4
-        //  getFirstLinkpathDest: this.app.metadataCache.getFirstLinkpathDest(
-        //     imagePath,
-        //     filePath
-        //   )?.path,
-        //
-        // 可以正确获取到 图片的相对路径 Programming/attachments/test.png
-        let originalImagePath: string;
-        if (!imagePath.startsWith("http")) {
-          // 构建完整的原始图片路径
-          const activeFilePath = this.app.workspace.getActiveFile()?.path || "";
-          // 处理不同类型的路径, 会有三种情况
-          if (isObsidianImage) {
-            // 是 Obsidian 图片链接格式，通过 getFirstLinkpathDest 获取目标路径
-            // 获取图片的相对路径
-            const imageRelativePath =
-              this.app.metadataCache.getFirstLinkpathDest(
-                imagePath,
-                activeFilePath
-              )?.path;
-            if (imageRelativePath) {
-              originalImagePath = path.join(
-                this.app.vault.adapter.getBasePath(),
-                imageRelativePath
-              );
-            }
-          } else if (path.isAbsolute(imagePath)) {
-            // 绝对路径（从 vault 根目录开始）
-            originalImagePath = path.join(
-              this.app.vault.adapter.getBasePath(),
-              imagePath
-            );
-          } else {
-            // 相对路径（相对于当前文件）
-            const currentDir = path.dirname(activeFilePath);
-            originalImagePath = path.join(
-              this.app.vault.adapter.getBasePath(),
-              currentDir,
-              imagePath
-            );
-          }
-          // 检查图片文件是否存在
-          if (fs.existsSync(originalImagePath)) {
-            // 生成新的图片文件名（使用原文件名+时间戳避免冲突）
-            const ext = path.extname(imagePath);
-            const basename = path.basename(imagePath, ext);
-            // const newName = `${basename}_${Date.now()}${ext}`;
-            const newName = `${basename}${ext}`;
-
-            // 构建目标路径
-            let newImagePath: string;
-            if (this.settings.imageToStatic) {
-              newImagePath = path.join(
-                this.settings.hugoPath,
-                this.settings.staticPath,
-                "images",
-                newName
+      try {
+        const repo = await GitRepository.open(
+          this.commandRunner,
+          site.hugoPath
+        );
+        if (!repo) {
+          new Notice(
+            this.lang.notices.gitNotRepository.replace("{0}", site.hugoPath)
+          );
+          continue;
+        }
+        const entries = await repo.status(changedPaths(siteChanges));
+        if (entries.length === 0) {
+          continue;
+        }
+        new GitCommitModal(this.app, this.lang, {
+          site: site.name,
+          entries,
+          message: buildCommitMessage(siteChanges),
+          remote: site.gitRemote,
+          onCommit: async (message, push) => {
+            try {
+              await repo.commit(entries, message);
+              new Notice(
+                this.lang.notices.gitCommitted
+                  .replace("{0}", entries.length.toString())
+                  .replace("{1}", site.name)
               );
-            } else {
-              // 和md源文件放到同一目录下(markdown
-              //  原名作为文件夹名字，图片放到同目录 images 目录下
-              //  原 markdown 重命名为 index.md
-              newImagePath = path.join(
-                this.settings.hugoPath,
-                this.settings.contentPath,
-                title,
-                "images",
-                newName
+              if (push) {
+                await repo.push(site.gitRemote);
+                new Notice(
+                  this.lang.notices.gitPushed
+                    .replace("{0}", site.name)
+                    .replace("{1}", site.gitRemote)
+                );
+              }
+            } catch (error) {
+              new Notice(
+                this.lang.notices.gitFailed
+                  .replace("{0}", site.name)
+                  .replace("{1}", error.message),
+                10000
               );
             }
+          },
+        }).open();
+      } catch (error) {
+        new Notice(
+          this.lang.notices.gitFailed
+            .replace("{0}", site.name)
+            .replace("{1}", error.message),
+          10000
+        );
+      }
+    }
+  }
 
-            // 添加到待拷贝列表
-            imagesToCopy.push({
-              originalPath: originalImagePath,
-              newPath: newImagePath,
-              newName: newName,
-            });
-
-            // 更新行内容，替换为Hugo中的路径
-            const relativeNewPath = path
-              .join(
-                this.settings.imageToStatic ? "/images" : "./images",
-                newName
-              )
-              .replace(/\\/g, "/")
-              .split("/")
-              .map((part) => encodeURIComponent(part))
-              .join("/");
-
-            // 判断原始语法类型并转换为标准Markdown语法
-            let newImageSyntax: string;
-            if (matchText.includes("![[")) {
-              // Obsidian语法 ![[image.png]] 转换为标准Markdown语法 ![image.png](/images/new_name.png)
-              const imageName = path.basename(imagePath);
-              newImageSyntax = `![${imageName}](${relativeNewPath})`;
-            } else {
-              // 原本就是标准Markdown语法，只需替换路径
-              newImageSyntax = matchText.replace(imagePath, relativeNewPath);
-            }
-            // 实际替换行中的图片语法
-            var newLine = line.replace(matchText, newImageSyntax);
-
-            // 更新处理后的内容数组
-            processedContent.push(newLine);
-          }
-        }
-      };
-
-      if (!skipContent) {
-        let lineProcessed = false;
-
-        // 处理标准 Markdown 语法: ![alt](path)
-        const markdownImageRegex =
-          /!\[.*?\]\((.*?\.(?:png|jpg|jpeg|gif|webp|svg))(?:\s+["'].*?["'])?\)/gi;
-        let match;
-        while ((match = markdownImageRegex.exec(line)) !== null) {
-          const imagePath = match[1];
-          processImageLink(imagePath, line, match[0]);
-          lineProcessed = true;
-        }
+  async handleRename(file: TFile, oldPath: string) {
+    const entry = this.syncManifest.get(oldPath);
+    if (!entry) {
+      return;
+    }
 
-        // 处理 Obsidian 语法: ![[path]]
-        const obsidianImageRegex =
-          /!\[\[(.*?\.(?:png|jpg|jpeg|gif|webp|svg))\]\]/gi;
-        while ((match = obsidianImageRegex.exec(line)) !== null) {
-          const imagePath = match[1];
-          processImageLink(imagePath, line, match[0], true);
-          lineProcessed = true;
-        }
+    // 清单记录跟随笔记，下次同步时旧 URL 写入 aliases，旧位置的输出被移除
+    this.syncManifest.delete(oldPath);
+    this.syncManifest.set(file.path, entry);
+    // 未开启监听模式时不改动站点；不再符合发布规则的笔记留给清理孤立输出处理
+    if (!this.settings.watchMode || !this.converter.isPublishableFile(file)) {
+      await this.syncManifest.save();
+      return;
+    }
 
-        // 如果当前行已经处理过图片链接，则跳过其他处理
-        if (lineProcessed) {
-          continue;
-        }
+    const site = this.converter.getSite(entry.site);
+    const route = this.converter.getRoute(file);
+    // 路由到其他站点时不移动文件，由重新同步移除旧站点中的输出
+    const newFilePath = this.converter.getHugoFilePath(
+      file,
+      route,
+      this.converter.getSlug(file, entry)
+    );
+    const outputPath = this.converter.toHugoRelativePath(newFilePath, site);
+    const oldBundleDir = this.converter.getBundleDir(entry.outputPath);
+    if (
+      route.site === site &&
+      outputPath !== entry.outputPath &&
+      !(
+        oldBundleDir &&
+        this.converter.isSharedBundle(oldBundleDir, site, file.path)
+      )
+    ) {
+      const newBundleDir = this.converter.getBundleDir(outputPath);
+      const from = path.join(site.hugoPath, oldBundleDir || entry.outputPath);
+      const to = path.join(site.hugoPath, newBundleDir || outputPath);
+      if (fs.existsSync(from) && !fs.existsSync(to)) {
+        fs.mkdirSync(path.dirname(to), { recursive: true });
+        fs.renameSync(from, to);
       }
-
-      // 处理tags
-      if (trimmedLine === "tags:") {
-        tagSection = true;
-        continue;
+      if (oldBundleDir && newBundleDir) {
+        entry.images = entry.images.map((image) =>
+          image.startsWith(oldBundleDir + "/")
+            ? newBundleDir + image.slice(oldBundleDir.length)
+            : image
+        );
       }
+      entry.outputPath = outputPath;
+    }
+    // 页面（包括 aliases）由监听模式的自动同步重新生成
+    await this.syncManifest.save();
+  }
 
-      if (tagSection) {
-        if (trimmedLine.startsWith("-")) {
-          const tag = trimmedLine.slice(1).trim();
-          if (tag && !symbolOnlyRegex.test(tag)) {
-            tags.push(tag);
-          }
-        } else {
-          tagSection = false;
-        }
-      } else if (!skipContent) {
-        // New logic to handle standalone tags
-        const standaloneTagsMatch = trimmedLine.match(/#[^\s#]+/g);
-        if (standaloneTagsMatch) {
-          standaloneTagsMatch.forEach((tag) => {
-            const cleanTag = tag.slice(1); // Remove the '#'
-            if (!symbolOnlyRegex.test(cleanTag) && !tags.includes(cleanTag)) {
-              tags.push(cleanTag);
-            }
-          });
-          // Remove the standalone tags from the line
-          const cleanedLine = line.replace(/#[^\s#]+/g, "").trim();
-          if (cleanedLine) {
-            processedContent.push(cleanedLine);
+  getVaultResolver(): VaultResolver {
+    const { vault, metadataCache } = this.app;
+    return {
+      resolve: (linkpath, sourcePath) =>
+        metadataCache.getFirstLinkpathDest(linkpath, sourcePath)?.path,
+      read: async (filePath) => {
+        const file = vault.getAbstractFileByPath(filePath);
+        return file instanceof TFile ? vault.cachedRead(file) : "";
+      },
+      getBasePath: () => (vault.adapter as FileSystemAdapter).getBasePath(),
+      getFile: (filePath) => {
+        const file = vault.getAbstractFileByPath(filePath);
+        return file instanceof TFile ? file : undefined;
+      },
+      getMarkdownFiles: () => vault.getMarkdownFiles(),
+      getFrontMatter: (file) =>
+        metadataCache.getFileCache(file as TFile)?.frontmatter,
+      getTags: (file) => {
+        const cache = metadataCache.getFileCache(file as TFile);
+        return (cache && getAllTags(cache)) || [];
+      },
+    };
+  }
+
+  getSelectedFiles(): TFile[] {
+    const selectedFiles: TFile[] = [];
+
+    // 获取文浏览器中选中的文件
+    const fileExplorer = this.app.workspace.getLeavesOfType("file-explorer")[0];
+    if (fileExplorer && fileExplorer.view) {
+      // @ts-ignore
+      const selectedItems = fileExplorer.view.fileItems;
+      if (selectedItems) {
+        for (const item of Object.values(selectedItems)) {
+          // @ts-ignore
+          if (
+            item &&
+            item.file instanceof TFile &&
+            item.titleEl &&
+            item.titleEl.classList &&
+            item.titleEl.classList.contains("is-selected")
+          ) {
+            selectedFiles.push(item.file);
           }
-        } else {
-          processedContent.push(line); // Keep original indentation
         }
       }
     }
 
-    // 根据配置中 descriptionLines 的字段处理描述
-    if (this.settings.descriptionLines > 0) {
-      const descriptionLines = lines.slice(0, this.settings.descriptionLines);
-      description = descriptionLines.join("").trim();
-      // description = description.split
+    // 如果文件浏览器中没有选中文件，则使用当前活动文件
+    if (selectedFiles.length === 0) {
+      const activeFile = this.app.workspace.getActiveFile();
+      if (activeFile) {
+        selectedFiles.push(activeFile);
+      }
     }
 
-    // 创建 Hugo 格式的前置元数据
-    const hugoFrontMatter = `---
-title: "${title}"
-date: ${date}
-draft: false
-tags: [${tags.map((tag) => `"${tag}"`).join(", ")}]
-${this.settings.descriptionLines > 0 ? "\ndescription: " + description : ""}
-${this.settings.authorName ? "\nauthor: " + this.settings.authorName : ""}
-${
-  this.settings.useFirstImageAsCover && imagesToCopy.length > 0
-    ? "\ncover: " + imagesToCopy[0].newPath
-    : ""
-}
----
-
-`;
+    return selectedFiles;
+  }
 
-    // 组合处理后的内容
-    let cleanContent = processedContent.join("\n");
-    // 只移除最开始和最后的空白行，保留段落间的空行
-    cleanContent = cleanContent.replace(/^\n+|\n+$/g, "");
+  async previewActiveFile() {
+    const file = this.app.workspace.getActiveFile();
+    if (!file || file.extension !== "md") {
+      new Notice(this.lang.notices.noFilesSelected);
+      return;
+    }
 
-    return {
-      hugoContent: hugoFrontMatter + cleanContent,
-      imageList: imagesToCopy,
-    };
+    const prepared = await this.converter.prepareHugoOutput(file);
+    const existing = fs.existsSync(prepared.hugoFilePath)
+      ? fs.readFileSync(prepared.hugoFilePath, "utf8")
+      : "";
+    new PreviewModal(this.app, this.lang, prepared, existing, async () => {
+      await this.converter.writeHugoOutput(prepared);
+      await this.syncManifest.save();
+      new Notice(this.lang.notices.syncSuccess.replace("{0}", "1"));
+      this.openPreviewPage([file]);
+      await this.offerGitCommit();
+    }).open();
   }
 }
 
@@ -497,59 +852,496 @@ class HugoSyncSettingTab extends PluginSettingTab {
     containerEl.empty();
     containerEl.createEl("h2", { text: this.plugin.lang.settings.pluginName });
 
+    for (const site of this.plugin.settings.sites) {
+      this.addSiteSettings(site);
+    }
+    new Setting(containerEl).addButton((button) =>
+      button
+        .setButtonText(this.plugin.lang.settings.addSite)
+        .onClick(async () => {
+          const { sites } = this.plugin.settings;
+          let index = sites.length + 1;
+          while (sites.some((site) => site.name === `site${index}`)) {
+            index++;
+          }
+          sites.push(createSiteProfile(`site${index}`));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+    );
+
     new Setting(containerEl)
-      .setName(this.plugin.lang.settings.hugoPath)
-      .setDesc(this.plugin.lang.settings.hugoPathDesc)
+      .setName(this.plugin.lang.settings.slugStrategy)
+      .setDesc(this.plugin.lang.settings.slugStrategyDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            original: "Original name",
+            kebab: "kebab-case ASCII",
+            transliterate: "Transliterated",
+            date: "Date prefixed (2026-10-19-title)",
+          })
+          .setValue(this.plugin.settings.slugStrategy)
+          .onChange(async (value) => {
+            this.plugin.settings.slugStrategy = value as SlugStrategy;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.routingRules)
+      .setDesc(this.plugin.lang.settings.routingRulesDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("folder: Notes/TIL -> blog/til\ntag: docs -> docs")
+          .setValue(formatRoutingRules(this.plugin.settings.routingRules))
+          .onChange(async (value) => {
+            this.plugin.settings.routingRules = parseRoutingRules(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.filteredHeaders)
+      .setDesc(this.plugin.lang.settings.filteredHeadersDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("Enter headers here\nOne per line")
+          .setValue(this.plugin.settings.filteredHeaders.join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.filteredHeaders = value
+              .split("\n")
+              .map((s) => s.trim())
+              .filter((s) => s);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.stripComments)
+      .setDesc(this.plugin.lang.settings.stripCommentsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.stripComments)
+          .onChange(async (value) => {
+            this.plugin.settings.stripComments = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.privateMarkers)
+      .setDesc(this.plugin.lang.settings.privateMarkersDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.privateMarkers)
+          .onChange(async (value) => {
+            this.plugin.settings.privateMarkers = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.privateTag)
+      .setDesc(this.plugin.lang.settings.privateTagDesc)
       .addText((text) =>
         text
-          .setPlaceholder("Enter path")
-          .setValue(this.plugin.settings.hugoPath)
+          .setPlaceholder("private")
+          .setValue(this.plugin.settings.privateTag)
           .onChange(async (value) => {
-            this.plugin.settings.hugoPath = value;
+            this.plugin.settings.privateTag = value.trim().replace(/^#/, "");
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName(this.plugin.lang.settings.contentPath)
-      .setDesc(this.plugin.lang.settings.contentPathDesc)
+      .setName(this.plugin.lang.settings.redactions)
+      .setDesc(this.plugin.lang.settings.redactionsDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("\\b[\\w-]+\\.corp\\.example\\.com\\b -> example.com")
+          .setValue(formatRedactions(this.plugin.settings.redactions))
+          .onChange(async (value) => {
+            this.plugin.settings.redactions = parseRedactions(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addListSetting(
+      this.plugin.lang.settings.secretPatterns,
+      this.plugin.lang.settings.secretPatternsDesc,
+      "secretPatterns"
+    );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.taxonomyRules)
+      .setDesc(this.plugin.lang.settings.taxonomyRulesDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("cat -> categories\nseries -> series")
+          .setValue(formatTaxonomyRules(this.plugin.settings.taxonomyRules))
+          .onChange(async (value) => {
+            this.plugin.settings.taxonomyRules = parseTaxonomyRules(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.tagAliases)
+      .setDesc(this.plugin.lang.settings.tagAliasesDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("js -> javascript\ngolang -> go")
+          .setValue(formatTagAliases(this.plugin.settings.tagAliases))
+          .onChange(async (value) => {
+            this.plugin.settings.tagAliases = parseTagAliases(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    this.addListSetting(
+      this.plugin.lang.settings.excludedTags,
+      this.plugin.lang.settings.excludedTagsDesc,
+      "excludedTags"
+    );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.lowercaseTags)
+      .setDesc(this.plugin.lang.settings.lowercaseTagsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.lowercaseTags)
+          .onChange(async (value) => {
+            this.plugin.settings.lowercaseTags = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.nestedTagMode)
+      .setDesc(this.plugin.lang.settings.nestedTagModeDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            keep: "Keep (lang/rust)",
+            leaf: "Last level (rust)",
+            split: "Every level (lang, rust)",
+          })
+          .setValue(this.plugin.settings.nestedTagMode)
+          .onChange(async (value) => {
+            this.plugin.settings.nestedTagMode = value as NestedTagMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.keepInlineTags)
+      .setDesc(this.plugin.lang.settings.keepInlineTagsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.keepInlineTags)
+          .onChange(async (value) => {
+            this.plugin.settings.keepInlineTags = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.publishFlag)
+      .setDesc(this.plugin.lang.settings.publishFlagDesc)
       .addText((text) =>
         text
-          .setPlaceholder("content/posts")
-          .setValue(this.plugin.settings.contentPath)
+          .setPlaceholder("publish")
+          .setValue(this.plugin.settings.publishFlag)
           .onChange(async (value) => {
-            this.plugin.settings.contentPath = value;
+            this.plugin.settings.publishFlag = value.trim();
             await this.plugin.saveSettings();
           })
       );
 
-    // 添加 imageToStatic 配置项
+    this.addListSetting(
+      this.plugin.lang.settings.includeFolders,
+      this.plugin.lang.settings.includeFoldersDesc,
+      "includeFolders"
+    );
+    this.addListSetting(
+      this.plugin.lang.settings.excludeFolders,
+      this.plugin.lang.settings.excludeFoldersDesc,
+      "excludeFolders"
+    );
+    this.addListSetting(
+      this.plugin.lang.settings.requiredTags,
+      this.plugin.lang.settings.requiredTagsDesc,
+      "requiredTags"
+    );
+
     new Setting(containerEl)
-      .setName("Image Handling Mode")
-      .setDesc(
-        "Enable to store images in static folder, disable to store with markdown file"
-      )
+      .setName(this.plugin.lang.settings.watchMode)
+      .setDesc(this.plugin.lang.settings.watchModeDesc)
       .addToggle((toggle) =>
         toggle
-          .setValue(this.plugin.settings.imageToStatic)
+          .setValue(this.plugin.settings.watchMode)
           .onChange(async (value) => {
-            this.plugin.settings.imageToStatic = value;
+            this.plugin.settings.watchMode = value;
             await this.plugin.saveSettings();
           })
       );
 
     new Setting(containerEl)
-      .setName(this.plugin.lang.settings.filteredHeaders)
-      .setDesc(this.plugin.lang.settings.filteredHeadersDesc)
+      .setName(this.plugin.lang.settings.watchDelay)
+      .setDesc(this.plugin.lang.settings.watchDelayDesc)
+      .addSlider((slider) =>
+        slider
+          .setLimits(1, 30, 1)
+          .setValue(this.plugin.settings.watchDelay)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.watchDelay = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.hugoServerCommand)
+      .setDesc(this.plugin.lang.settings.hugoServerCommandDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SETTINGS.hugoServerCommand)
+          .setValue(this.plugin.settings.hugoServerCommand)
+          .onChange(async (value) => {
+            this.plugin.settings.hugoServerCommand =
+              value.trim() || DEFAULT_SETTINGS.hugoServerCommand;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.calloutPreset)
+      .setDesc(this.plugin.lang.settings.calloutPresetDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({
+            details: "<details>",
+            admonition: "admonition (LoveIt/DoIt/FixIt)",
+            hextra: "Hextra callout",
+            docsy: "Docsy alert",
+            custom: "Custom",
+            none: "Keep as blockquote",
+          })
+          .setValue(this.plugin.settings.calloutPreset)
+          .onChange(async (value) => {
+            this.plugin.settings.calloutPreset = value as CalloutPreset;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.calloutTemplate)
+      .setDesc(this.plugin.lang.settings.calloutTemplateDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder(
+            '{{< notice {type} "{title}" >}}\\n{content}\\n{{< /notice >}}'
+          )
+          .setValue(this.plugin.settings.calloutTemplate)
+          .onChange(async (value) => {
+            this.plugin.settings.calloutTemplate = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.calloutTemplates)
+      .setDesc(this.plugin.lang.settings.calloutTemplatesDesc)
       .addTextArea((text) =>
         text
-          .setPlaceholder("Enter headers here\nOne per line")
-          .setValue(this.plugin.settings.filteredHeaders.join("\n"))
+          .setPlaceholder("warning: {{< alert >}}\\n{content}\\n{{< /alert >}}")
+          .setValue(
+            Object.entries(this.plugin.settings.calloutTemplates)
+              .map(([type, template]) => `${type}: ${template}`)
+              .join("\n")
+          )
           .onChange(async (value) => {
-            this.plugin.settings.filteredHeaders = value
-              .split("\n")
-              .map((s) => s.trim())
-              .filter((s) => s);
+            this.plugin.settings.calloutTemplates =
+              parseCalloutTemplates(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.foldableAsDetails)
+      .setDesc(this.plugin.lang.settings.foldableAsDetailsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.foldableAsDetails)
+          .onChange(async (value) => {
+            this.plugin.settings.foldableAsDetails = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.embedDepth)
+      .setDesc(this.plugin.lang.settings.embedDepthDesc)
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 10, 1)
+          .setValue(this.plugin.settings.embedDepth)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.embedDepth = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.sizedImageStyle)
+      .setDesc(this.plugin.lang.settings.sizedImageStyleDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ html: "<img>", figure: "figure shortcode" })
+          .setValue(this.plugin.settings.sizedImageStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.sizedImageStyle = value as SizedImageStyle;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.pdfShortcode)
+      .setDesc(this.plugin.lang.settings.pdfShortcodeDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("embed-pdf")
+          .setValue(this.plugin.settings.pdfShortcode)
+          .onChange(async (value) => {
+            this.plugin.settings.pdfShortcode = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.attachmentNaming)
+      .setDesc(this.plugin.lang.settings.attachmentNamingDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ original: "Original name", hash: "Content hash" })
+          .setValue(this.plugin.settings.attachmentNaming)
+          .onChange(async (value) => {
+            this.plugin.settings.attachmentNaming = value as AttachmentNaming;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.imageMaxWidth)
+      .setDesc(this.plugin.lang.settings.imageMaxWidthDesc)
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 4000, 100)
+          .setValue(this.plugin.settings.imageMaxWidth)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.imageMaxWidth = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertToWebp)
+      .setDesc(this.plugin.lang.settings.convertToWebpDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertToWebp)
+          .onChange(async (value) => {
+            this.plugin.settings.convertToWebp = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.linkStyle)
+      .setDesc(this.plugin.lang.settings.linkStyleDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ relref: "relref", permalink: "Permalink" })
+          .setValue(this.plugin.settings.linkStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.linkStyle = value as LinkStyle;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.unpublishedLinks)
+      .setDesc(this.plugin.lang.settings.unpublishedLinksDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ text: "Plain text", remove: "Remove" })
+          .setValue(this.plugin.settings.unpublishedLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.unpublishedLinks =
+              value as UnpublishedLinkMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertBlockReferences)
+      .setDesc(this.plugin.lang.settings.convertBlockReferencesDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertBlockReferences)
+          .onChange(async (value) => {
+            this.plugin.settings.convertBlockReferences = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertSameNoteLinks)
+      .setDesc(this.plugin.lang.settings.convertSameNoteLinksDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertSameNoteLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.convertSameNoteLinks = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertBlockIds)
+      .setDesc(this.plugin.lang.settings.convertBlockIdsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertBlockIds)
+          .onChange(async (value) => {
+            this.plugin.settings.convertBlockIds = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertHighlights)
+      .setDesc(this.plugin.lang.settings.convertHighlightsDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertHighlights)
+          .onChange(async (value) => {
+            this.plugin.settings.convertHighlights = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(this.plugin.lang.settings.convertTaskStates)
+      .setDesc(this.plugin.lang.settings.convertTaskStatesDesc)
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.convertTaskStates)
+          .onChange(async (value) => {
+            this.plugin.settings.convertTaskStates = value;
             await this.plugin.saveSettings();
           })
       );
@@ -584,44 +1376,288 @@ class HugoSyncSettingTab extends PluginSettingTab {
           })
       );
 
-    // 添加 useFirstImageAsCover 配置项
     new Setting(containerEl)
-      .setName("Use First Image as Cover")
-      .setDesc("Use the first image in the post as the cover image")
+      .setName("Language")
+      .setDesc("Select plugin language")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ en: "English", zh: "中文" })
+          .setValue(this.plugin.settings.language)
+          .onChange(async (value) => {
+            this.plugin.settings.language = value;
+            await this.plugin.saveSettings();
+            this.display(); // 重新加载设置页面以应用新语言
+          })
+      );
+  }
+
+  // 单个站点的配置
+  addSiteSettings(site: SiteProfile) {
+    const { sites } = this.plugin.settings;
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.siteName)
+      .setDesc(this.plugin.lang.settings.siteNameDesc)
+      .setHeading()
+      .addText((text) => {
+        text.setValue(site.name);
+        // 输入完成（失去焦点或回车）后才改名，清单和路由规则随之更新
+        text.inputEl.addEventListener("change", async () => {
+          const name = text.getValue().trim();
+          if (name === site.name) {
+            return;
+          }
+          if (!name || sites.some((other) => other.name === name)) {
+            new Notice(
+              this.plugin.lang.notices.siteNameInvalid.replace("{0}", name)
+            );
+            text.setValue(site.name);
+            return;
+          }
+          await this.plugin.renameSite(site, name);
+          this.display();
+        });
+      })
+      .addExtraButton((button) =>
+        button
+          .setIcon("trash")
+          .setTooltip(this.plugin.lang.settings.removeSite)
+          .setDisabled(sites.length <= 1)
+          .onClick(async () => {
+            if (sites.length <= 1) {
+              return;
+            }
+            await this.plugin.removeSite(site, () => this.display());
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.hugoPath)
+      .setDesc(this.plugin.lang.settings.hugoPathDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("Enter path")
+          .setValue(site.hugoPath)
+          .onChange(async (value) => {
+            site.hugoPath = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.contentPath)
+      .setDesc(this.plugin.lang.settings.contentPathDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("content/posts")
+          .setValue(site.contentPath)
+          .onChange(async (value) => {
+            site.contentPath = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // 添加 imageToStatic 配置项
+    new Setting(this.containerEl)
+      .setName("Image Handling Mode")
+      .setDesc(
+        "Enable to store images in static folder, disable to store with markdown file"
+      )
       .addToggle((toggle) =>
-        toggle
-          .setValue(this.plugin.settings.useFirstImageAsCover)
+        toggle.setValue(site.imageToStatic).onChange(async (value) => {
+          site.imageToStatic = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.staticPath)
+      .setDesc(this.plugin.lang.settings.staticPathDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("static")
+          .setValue(site.staticPath)
           .onChange(async (value) => {
-            this.plugin.settings.useFirstImageAsCover = value;
+            site.staticPath = value;
             await this.plugin.saveSettings();
           })
       );
 
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.frontMatterFormat)
+      .setDesc(this.plugin.lang.settings.frontMatterFormatDesc)
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ yaml: "YAML", toml: "TOML", json: "JSON" })
+          .setValue(site.frontMatterFormat)
+          .onChange(async (value) => {
+            site.frontMatterFormat = value as FrontMatterFormat;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    let presetDropdown: DropdownComponent;
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.frontMatterPreset)
+      .setDesc(this.plugin.lang.settings.frontMatterPresetDesc)
+      .addDropdown((dropdown) => {
+        presetDropdown = dropdown;
+        dropdown
+          .addOptions({
+            none: "None",
+            papermod: "PaperMod",
+            stack: "Stack",
+            loveit: "LoveIt / DoIt / FixIt",
+            ananke: "Ananke",
+            blowfish: "Blowfish",
+            custom: "Custom",
+          })
+          .setValue(site.frontMatterPreset)
+          .onChange(async (value) => {
+            site.frontMatterPreset = value;
+            // 选择预设时将其模板复制到编辑框中
+            if (value !== "custom") {
+              site.frontMatterTemplate = FRONT_MATTER_PRESETS[value] || "";
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          });
+      });
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.frontMatterTemplate)
+      .setDesc(this.plugin.lang.settings.frontMatterTemplateDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("cover:\n  image: {{firstImage}}\n  alt: {{title}}")
+          .setValue(site.frontMatterTemplate)
+          .onChange(async (value) => {
+            site.frontMatterTemplate = value;
+            // 手动修改后视为自定义模板
+            site.frontMatterPreset = "custom";
+            presetDropdown.setValue("custom");
+            await this.plugin.saveSettings();
+          })
+      );
+
+    // 添加 useFirstImageAsCover 配置项
+    new Setting(this.containerEl)
+      .setName("Use First Image as Cover")
+      .setDesc("Use the first image in the post as the cover image")
+      .addToggle((toggle) =>
+        toggle.setValue(site.useFirstImageAsCover).onChange(async (value) => {
+          site.useFirstImageAsCover = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
     // 添加 authorName 配置项
-    new Setting(containerEl)
+    new Setting(this.containerEl)
       .setName("Author Name")
       .setDesc("Default author name for posts")
       .addText((text) =>
         text
           .setPlaceholder("Author name")
-          .setValue(this.plugin.settings.authorName)
+          .setValue(site.authorName)
           .onChange(async (value) => {
-            this.plugin.settings.authorName = value;
+            site.authorName = value;
             await this.plugin.saveSettings();
           })
       );
 
-    new Setting(containerEl)
-      .setName("Language")
-      .setDesc("Select plugin language")
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.multilingualMode)
+      .setDesc(this.plugin.lang.settings.multilingualModeDesc)
       .addDropdown((dropdown) =>
         dropdown
-          .addOptions({ en: "English", zh: "中文" })
-          .setValue(this.plugin.settings.language)
+          .addOptions({
+            none: "Off",
+            filename: "index.<lang>.md",
+            directory: "content/<lang>/",
+          })
+          .setValue(site.multilingualMode)
           .onChange(async (value) => {
-            this.plugin.settings.language = value;
+            site.multilingualMode = value as MultilingualMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.defaultLanguage)
+      .setDesc(this.plugin.lang.settings.defaultLanguageDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("en")
+          .setValue(site.defaultLanguage)
+          .onChange(async (value) => {
+            site.defaultLanguage = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.gitEnabled)
+      .setDesc(this.plugin.lang.settings.gitEnabledDesc)
+      .addToggle((toggle) =>
+        toggle.setValue(site.gitEnabled).onChange(async (value) => {
+          site.gitEnabled = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.gitRemote)
+      .setDesc(this.plugin.lang.settings.gitRemoteDesc)
+      .addText((text) =>
+        text
+          .setPlaceholder("origin")
+          .setValue(site.gitRemote)
+          .onChange(async (value) => {
+            site.gitRemote = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(this.containerEl)
+      .setName(this.plugin.lang.settings.postSyncHooks)
+      .setDesc(this.plugin.lang.settings.postSyncHooksDesc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("hugo --minify")
+          .setValue(site.postSyncHooks.join("\n"))
+          .onChange(async (value) => {
+            site.postSyncHooks = value
+              .split("\n")
+              .map((s) => s.trim())
+              .filter((s) => s);
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  // 每行一项的列表配置
+  addListSetting(
+    name: string,
+    desc: string,
+    key:
+      | "includeFolders"
+      | "excludeFolders"
+      | "requiredTags"
+      | "excludedTags"
+      | "secretPatterns"
+  ) {
+    new Setting(this.containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("One per line")
+          .setValue(this.plugin.settings[key].join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings[key] = value
+              .split("\n")
+              .map((s) => s.trim())
+              .filter((s) => s);
             await this.plugin.saveSettings();
-            this.display(); // 重新加载设置页面以应用新语言
           })
       );
   }
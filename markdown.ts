@@ -0,0 +1,231 @@
+export type MarkdownBlockType =
+  | "text"
+  | "heading"
+  | "code"
+  | "math"
+  | "html"
+  | "blank";
+
+export interface MarkdownBlock {
+  type: MarkdownBlockType;
+  lines: string[];
+  // 标题层级 1-6，仅用于 heading
+  level?: number;
+}
+
+export interface MarkdownDocument {
+  blocks: MarkdownBlock[];
+  // 行内代码、公式、HTML 和短代码等受保护的片段，在文本中以占位符表示
+  protected: string[];
+}
+
+// 围栏代码块和公式块可以位于引用块或列表项中
+const fenceRegex = /^((?:\s*>)*\s*)(`{3,}|~{3,})(.*)$/;
+const mathRegex = /^(?:\s*>)*\s*\$\$(.*)$/;
+const headingRegex = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+// CommonMark 中可以打断段落的 HTML 块
+const htmlBlockTags =
+  "address|article|aside|blockquote|center|details|dialog|dd|div|dl|dt|figcaption|figure|footer|form|h[1-6]|header|hr|iframe|li|main|nav|ol|p|section|summary|table|tbody|td|tfoot|th|thead|tr|ul";
+const htmlBlockRegex = new RegExp(
+  `^ {0,3}</?(?:${htmlBlockTags})(?:\\s|/?>|$)`,
+  "i"
+);
+const htmlRawRegex = /^ {0,3}<(script|pre|style|textarea)(?:\s|>|$)/i;
+const htmlCommentRegex = /^ {0,3}<!--/;
+// 单独占据一行的完整标签，只能出现在段落开头
+const htmlTagLineRegex =
+  /^ {0,3}(?:<[A-Za-z][\w-]*(?:\s[^<>]*)?\/?>|<\/[A-Za-z][\w-]*\s*>)\s*$/;
+
+const inlineProtectedRegex = new RegExp(
+  [
+    // 行内代码
+    "(`+)(?!`)[\\s\\S]*?[^`]\\1(?!`)",
+    // 行内公式 $...$ 和 $$...$$
+    "\\$\\$[\\s\\S]+?\\$\\$",
+    "\\$[^$\\s](?:[^$]*[^$\\s])?\\$",
+    // Hugo 短代码
+    "\\{\\{[<%][\\s\\S]*?[%>]\\}\\}",
+    // HTML 注释、标签和自动链接
+    "<!--[\\s\\S]*?-->",
+    "</?[A-Za-z][\\w-]*(?:\\s[^<>]*)?/?>",
+    "<[A-Za-z][\\w+.-]*:[^\\s<>]*>",
+  ].join("|"),
+  "g"
+);
+const placeholderRegex = /\u0000(\d+)\u0000/g;
+const hasPlaceholderRegex = /\u0000\d+\u0000/;
+
+/**
+ * Split a note body into blocks. Fenced code, math and HTML blocks are kept
+ * verbatim; in text and heading blocks inline code, math, HTML and
+ * shortcodes are replaced by placeholders, so later steps only ever see the
+ * prose around them.
+ */
+export function parseMarkdown(content: string): MarkdownDocument {
+  const document: MarkdownDocument = { blocks: [], protected: [] };
+  const lines = content.split("\n");
+  let i = 0;
+
+  const push = (type: MarkdownBlockType, blockLines: string[]) => {
+    const last = document.blocks[document.blocks.length - 1];
+    if (last && last.type === type && (type === "text" || type === "blank")) {
+      last.lines.push(...blockLines);
+    } else {
+      document.blocks.push({ type, lines: blockLines });
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const previous = document.blocks[document.blocks.length - 1];
+    const inParagraph = previous?.type === "text";
+
+    if (!line.trim()) {
+      push("blank", [line]);
+      i++;
+      continue;
+    }
+
+    const fenceMatch = line.match(fenceRegex);
+    if (
+      fenceMatch &&
+      !(fenceMatch[2][0] === "`" && fenceMatch[3].includes("`"))
+    ) {
+      const fence = fenceMatch[2];
+      const end = findLine(lines, i + 1, (candidate) => {
+        const closing = candidate.match(fenceRegex);
+        return (
+          !!closing &&
+          closing[2][0] === fence[0] &&
+          closing[2].length >= fence.length &&
+          !closing[3].trim()
+        );
+      });
+      push("code", lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const mathMatch = line.match(mathRegex);
+    if (mathMatch) {
+      // $$ 与公式写在同一行时是单行公式块
+      const end = mathMatch[1].includes("$$")
+        ? i
+        : findLine(lines, i + 1, (candidate) => candidate.includes("$$"));
+      push("math", lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+
+    const headingMatch = line.match(headingRegex);
+    if (headingMatch) {
+      document.blocks.push({
+        type: "heading",
+        lines: [protectInline(document, line)],
+        level: headingMatch[1].length,
+      });
+      i++;
+      continue;
+    }
+
+    const rawMatch = line.match(htmlRawRegex);
+    if (rawMatch) {
+      const closing = new RegExp(`</${rawMatch[1]}>`, "i");
+      const end = findLine(lines, i, (candidate) => closing.test(candidate));
+      push("html", lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+    if (htmlCommentRegex.test(line)) {
+      const end = findLine(lines, i, (candidate) => candidate.includes("-->"));
+      push("html", lines.slice(i, end + 1));
+      i = end + 1;
+      continue;
+    }
+    if (
+      htmlBlockRegex.test(line) ||
+      (!inParagraph && htmlTagLineRegex.test(line))
+    ) {
+      // 普通 HTML 块在空行处结束
+      const end = findLine(lines, i, (candidate) => !candidate.trim());
+      const blockEnd = end < lines.length && !lines[end].trim() ? end - 1 : end;
+      push("html", lines.slice(i, blockEnd + 1));
+      i = blockEnd + 1;
+      continue;
+    }
+
+    push("text", [protectInline(document, line)]);
+    i++;
+  }
+  return document;
+}
+
+// 返回第一个满足条件的行号；找不到时返回最后一行，即块延续到文末
+function findLine(
+  lines: string[],
+  start: number,
+  test: (line: string) => boolean
+): number {
+  for (let i = start; i < lines.length; i++) {
+    if (test(lines[i])) {
+      return i;
+    }
+  }
+  return lines.length - 1;
+}
+
+/**
+ * Store `text` as a protected fragment and return its placeholder. Steps
+ * use this for their own output that later steps must not touch.
+ */
+export function protect(document: MarkdownDocument, text: string): string {
+  document.protected.push(text);
+  return `\u0000${document.protected.length - 1}\u0000`;
+}
+
+export function protectInline(
+  document: MarkdownDocument,
+  line: string
+): string {
+  return line.replace(inlineProtectedRegex, (match) =>
+    protect(document, match)
+  );
+}
+
+/**
+ * Put the protected fragments back into `text`. `replace` can rewrite each
+ * fragment on the way, e.g. to turn inline code into plain text.
+ */
+export function restoreProtected(
+  document: MarkdownDocument,
+  text: string,
+  replace: (fragment: string) => string = (fragment) => fragment
+): string {
+  // 受保护片段中可能还嵌套着占位符（例如别名中带行内代码的链接）
+  let result = text;
+  while (hasPlaceholderRegex.test(result)) {
+    result = result.replace(placeholderRegex, (_, index) =>
+      replace(document.protected[Number(index)])
+    );
+  }
+  return result;
+}
+
+/**
+ * The text of a heading block without the `#` markers, with protected
+ * fragments restored.
+ */
+export function headingText(
+  document: MarkdownDocument,
+  block: MarkdownBlock
+): string {
+  const match = block.lines[0].match(headingRegex);
+  return restoreProtected(document, match?.[2] ?? "").trim();
+}
+
+export function renderMarkdown(document: MarkdownDocument): string {
+  return restoreProtected(
+    document,
+    document.blocks.map((block) => block.lines.join("\n")).join("\n")
+  );
+}
@@ -0,0 +1,12 @@
+import { dump, load } from "js-yaml";
+
+// CLI 和测试在 Obsidian 之外运行，obsidian 模块只有类型声明。
+// 构建时将 obsidian 指向此模块，提供转换过程中用到的运行时函数
+
+export function parseYaml(yaml: string): unknown {
+  return load(yaml);
+}
+
+export function stringifyYaml(obj: unknown): string {
+  return dump(obj);
+}
@@ -0,0 +1,134 @@
+import * as fs from "fs";
+import * as path from "path";
+import { VaultFile, VaultResolver } from "./converter";
+import { FrontMatter, readList, splitFrontMatter } from "./frontmatter";
+import { parseMarkdown } from "./markdown";
+import { extractTags } from "./pipeline";
+
+/**
+ * A vault read straight from disk, for running the converter outside
+ * Obsidian. Links are resolved like Obsidian does: relative to the note,
+ * from the vault root, or by file name (shortest path first).
+ */
+export class NodeVault implements VaultResolver {
+  private files: Map<string, VaultFile> = new Map();
+  private frontMatters: Map<string, FrontMatter> = new Map();
+
+  constructor(private basePath: string) {
+    this.scan("");
+  }
+
+  // 跳过 .obsidian、.git 等隐藏目录
+  private scan(dir: string) {
+    const entries = fs.readdirSync(path.join(this.basePath, dir), {
+      withFileTypes: true,
+    });
+    for (const entry of entries) {
+      if (entry.name.startsWith(".")) {
+        continue;
+      }
+      const filePath = dir ? `${dir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        this.scan(filePath);
+        continue;
+      }
+      const stat = fs.statSync(path.join(this.basePath, filePath));
+      const extension = path.extname(entry.name);
+      this.files.set(filePath, {
+        path: filePath,
+        name: entry.name,
+        basename: path.basename(entry.name, extension),
+        extension: extension.slice(1),
+        stat: {
+          ctime: stat.birthtimeMs || stat.ctimeMs,
+          mtime: stat.mtimeMs,
+          size: stat.size,
+        },
+      });
+    }
+  }
+
+  getBasePath(): string {
+    return this.basePath;
+  }
+
+  getFile(filePath: string): VaultFile | undefined {
+    return this.files.get(filePath);
+  }
+
+  getMarkdownFiles(): VaultFile[] {
+    return Array.from(this.files.values()).filter(
+      (file) => file.extension === "md"
+    );
+  }
+
+  resolve(linkpath: string, sourcePath: string): string | undefined {
+    const target = linkpath.trim().replace(/^\/+/, "");
+    if (!target) {
+      return undefined;
+    }
+    const candidates = path.posix.extname(target)
+      ? [target, target + ".md"]
+      : [target + ".md", target];
+
+    for (const candidate of candidates) {
+      const relative = path.posix.join(
+        path.posix.dirname(sourcePath),
+        candidate
+      );
+      if (this.files.has(relative)) {
+        return relative;
+      }
+      if (this.files.has(path.posix.normalize(candidate))) {
+        return path.posix.normalize(candidate);
+      }
+    }
+
+    // 按文件名（或路径结尾）匹配，忽略大小写
+    for (const candidate of candidates) {
+      const lower = candidate.toLowerCase();
+      const match = Array.from(this.files.keys())
+        .filter((filePath) => {
+          const lowerPath = filePath.toLowerCase();
+          return lowerPath === lower || lowerPath.endsWith("/" + lower);
+        })
+        .sort((a, b) => a.length - b.length)[0];
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  async read(filePath: string): Promise<string> {
+    return this.files.has(filePath)
+      ? fs.promises.readFile(path.join(this.basePath, filePath), "utf8")
+      : "";
+  }
+
+  getFrontMatter(file: VaultFile): FrontMatter | undefined {
+    if (!this.frontMatters.has(file.path)) {
+      this.frontMatters.set(
+        file.path,
+        splitFrontMatter(this.readSync(file)).frontMatter
+      );
+    }
+    return this.frontMatters.get(file.path);
+  }
+
+  // 与 Obsidian 的 getAllTags 一致，返回带 # 的 frontmatter 标签和正文标签
+  getTags(file: VaultFile): string[] {
+    const tags = readList(this.getFrontMatter(file)?.tags).map(
+      (tag) => "#" + tag.replace(/^#/, "")
+    );
+    const { body } = splitFrontMatter(this.readSync(file));
+    for (const tag of extractTags(parseMarkdown(body)).tags) {
+      tags.push("#" + tag);
+    }
+    return tags;
+  }
+
+  private readSync(file: VaultFile): string {
+    return fs.readFileSync(path.join(this.basePath, file.path), "utf8");
+  }
+}
@@ -0,0 +1,66 @@
+import { blockAnchor, headingAnchor } from "./links";
+
+export interface ObsidianSyntaxOptions {
+  // ==highlight== 转换为 <mark>
+  convertHighlights: boolean;
+  // 行尾的 ^block-id 转换为 HTML 锚点
+  convertBlockIds: boolean;
+  // [[#Heading]] 和 [[#^block-id]] 转换为页内链接
+  convertSameNoteLinks: boolean;
+  // - [/]、- [>] 等自定义任务状态转换为标准复选框
+  convertTaskStates: boolean;
+}
+
+// 块 ID 位于行尾，或单独一行（用于列表、表格和引用之后）
+const blockIdRegex = /(^|\s)\^([A-Za-z0-9-]+)[ \t]*$/;
+const highlightRegex = /(?<!=)==(?![=\s])(.+?)(?<![=\s])==(?!=)/g;
+const sameNoteLinkRegex = /(?<!!)\[\[#([^\[\]|]+)(?:\|([^\[\]]*))?\]\]/g;
+const taskRegex = /^(\s*(?:>\s*)*(?:[-*+]|\d+[.)])\s+)\[([^\]\sxX])\]/;
+
+export function convertHighlights(line: string): string {
+  return line.replace(highlightRegex, "<mark>$1</mark>");
+}
+
+/**
+ * Turn a trailing `^block-id` into an empty element carrying the id, so
+ * block references can link to it.
+ */
+export function convertBlockIds(line: string): string {
+  return line.replace(
+    blockIdRegex,
+    (_, space: string, id: string) =>
+      `${space}<span id="${blockAnchor(id)}"></span>`
+  );
+}
+
+/**
+ * Rewrite links to a heading or block of the same note into page anchors.
+ * `wrap` is applied to each generated link, as for `convertWikiLinks`.
+ */
+export function convertSameNoteLinks(
+  line: string,
+  wrap: (link: string) => string = (link) => link
+): string {
+  return line.replace(
+    sameNoteLinkRegex,
+    (_, subpath: string, alias?: string) => {
+      const target = subpath.trim();
+      // 链接文字不以 ^ 开头，否则 [^id] 会被当作脚注
+      const block = target.startsWith("^") ? target.slice(1) : "";
+      const anchor = block ? blockAnchor(block) : headingAnchor(target);
+      return wrap(`[${alias?.trim() || block || target}](#${anchor})`);
+    }
+  );
+}
+
+/**
+ * Replace custom task states (`[/]`, `[>]`, `[!]`, ...) with the standard
+ * ones: cancelled tasks (`[-]`) count as done, all others as open.
+ */
+export function convertTaskStates(line: string): string {
+  return line.replace(
+    taskRegex,
+    (_, prefix: string, state: string) =>
+      `${prefix}[${state === "-" ? "x" : " "}]`
+  );
+}
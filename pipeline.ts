@@ -0,0 +1,315 @@
+import {
+  MarkdownBlock,
+  MarkdownDocument,
+  headingText,
+  protect,
+  restoreProtected,
+} from "./markdown";
+import { compilePattern } from "./privacy";
+
+// Obsidian 标签：以空白或行首开头，至少包含一个字母（#123 不是标签）
+const inlineTagRegex = /(?<=^|\s)#([\p{L}\p{N}_/-]*\p{L}[\p{L}\p{N}_/-]*)\s*/gu;
+// 单独一行的 %% more %% 标记摘要的结束位置
+const moreMarkerRegex = /^\s*%%\s*more\s*%%\s*$/i;
+// 中日韩文字及全角标点，截断描述时可以在它们之间断开
+const cjkRegex =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\u3000-\u303f\uff00-\uffef]/u;
+
+/**
+ * Drop the sections under the given headings: everything up to the next
+ * heading of the same or a higher level. An entry matches a heading
+ * exactly, as a prefix when it ends with `*`, or as a regular expression
+ * when written as `/pattern/flags`.
+ */
+export function filterHeaders(
+  document: MarkdownDocument,
+  headers: string[]
+): MarkdownDocument {
+  if (headers.length === 0) {
+    return document;
+  }
+  return filterSections(document, (heading) =>
+    headers.some((header) => matchesHeader(heading, header))
+  );
+}
+
+function matchesHeader(heading: string, header: string): boolean {
+  if (/^\/.+\/[a-z]*$/.test(header)) {
+    return compilePattern(header)?.test(heading) ?? false;
+  }
+  if (header.endsWith("*")) {
+    return heading.startsWith(header.slice(0, -1));
+  }
+  return heading === header;
+}
+
+/**
+ * Drop every section whose heading text satisfies `isFiltered`, up to the
+ * next heading of the same or a higher level.
+ */
+export function filterSections(
+  document: MarkdownDocument,
+  isFiltered: (heading: string) => boolean
+): MarkdownDocument {
+  let skipLevel = 0;
+  const blocks = document.blocks.filter((block) => {
+    if (block.type === "heading" && block.level) {
+      if (skipLevel && block.level > skipLevel) {
+        return false;
+      }
+      skipLevel = isFiltered(headingText(document, block)) ? block.level : 0;
+      return skipLevel === 0;
+    }
+    return skipLevel === 0;
+  });
+  return { ...document, blocks };
+}
+
+/**
+ * Apply `transform` to every line of prose (text and heading blocks).
+ * Protected regions are placeholders at this point and stay untouched.
+ */
+export function transformText(
+  document: MarkdownDocument,
+  transform: (line: string) => string
+): MarkdownDocument {
+  return {
+    ...document,
+    blocks: document.blocks.map((block) =>
+      block.type === "text" || block.type === "heading"
+        ? { ...block, lines: block.lines.map(transform) }
+        : block
+    ),
+  };
+}
+
+/**
+ * Drop prose lines that a conversion left empty (e.g. a removed link or
+ * embed on its own line). The blank lines around them collapse into one.
+ */
+export function removeEmptyLines(document: MarkdownDocument): MarkdownDocument {
+  const blocks: MarkdownBlock[] = [];
+  for (const block of document.blocks) {
+    const lines =
+      block.type === "text"
+        ? block.lines.filter((line) => line.trim())
+        : block.lines;
+    const last = blocks[blocks.length - 1];
+    if (
+      lines.length === 0 ||
+      (block.type === "blank" && last?.type === "blank")
+    ) {
+      continue;
+    }
+    blocks.push({ ...block, lines });
+  }
+  return { ...document, blocks };
+}
+
+/**
+ * Remove inline `#tags` from the prose and return them in order of
+ * appearance. Lines that held nothing but tags are dropped. Tags for which
+ * `keep` returns true are collected but left in the text.
+ */
+export function extractTags(
+  document: MarkdownDocument,
+  keep: (tag: string) => boolean = () => false
+): {
+  document: MarkdownDocument;
+  tags: string[];
+} {
+  const tags: string[] = [];
+  const blocks = document.blocks.map((block) => {
+    if (block.type !== "text" && block.type !== "heading") {
+      return block;
+    }
+    const lines: string[] = [];
+    for (const line of block.lines) {
+      let found = false;
+      const cleaned = line.replace(inlineTagRegex, (match, tag: string) => {
+        if (!tags.includes(tag)) {
+          tags.push(tag);
+        }
+        if (keep(tag)) {
+          return match;
+        }
+        found = true;
+        return "";
+      });
+      if (!found) {
+        lines.push(line);
+      } else if (cleaned.trim() && !/^#{1,6}\s*$/.test(cleaned.trim())) {
+        lines.push(cleaned.trimEnd());
+      }
+    }
+    return { ...block, lines };
+  });
+  return {
+    document: {
+      ...document,
+      blocks: blocks.filter((block) => block.lines.length > 0),
+    },
+    tags,
+  };
+}
+
+/**
+ * Replace the first `%% more %%` line with Hugo's `<!--more-->` summary
+ * divider.
+ */
+export function convertMoreMarker(
+  document: MarkdownDocument
+): MarkdownDocument {
+  let found = false;
+  const blocks = document.blocks.map((block) => {
+    if (found || block.type !== "text") {
+      return block;
+    }
+    const index = block.lines.findIndex((line) => moreMarkerRegex.test(line));
+    if (index === -1) {
+      return block;
+    }
+    found = true;
+    const lines = block.lines.slice();
+    lines[index] = protect(document, "<!--more-->");
+    return { ...block, lines };
+  });
+  return { ...document, blocks };
+}
+
+/**
+ * Build a plain-text description: the prose before a `%% more %%` marker,
+ * or else the first `lineCount` lines of prose. Headings, code, math, HTML,
+ * quotes, callouts, tables, images and comments are skipped and markdown
+ * formatting is removed. The result is cut to `maxLength` characters.
+ */
+export function buildDescription(
+  document: MarkdownDocument,
+  lineCount: number,
+  maxLength: number
+): string {
+  const textLines: string[] = [];
+  for (const block of document.blocks) {
+    if (block.type === "text") {
+      textLines.push(...block.lines);
+    }
+  }
+  const markerIndex = textLines.findIndex((line) => moreMarkerRegex.test(line));
+  // 有标记时使用标记之前的全部文字
+  const candidates =
+    markerIndex === -1 ? textLines : textLines.slice(0, markerIndex);
+  const limit = markerIndex === -1 ? lineCount : Infinity;
+
+  const parts: string[] = [];
+  let inComment = false;
+  for (const line of candidates) {
+    if (parts.length >= limit) {
+      break;
+    }
+    // 去掉 %% 注释，注释可以跨行
+    let visible = line;
+    if (inComment) {
+      const end = visible.indexOf("%%");
+      if (end === -1) {
+        continue;
+      }
+      visible = visible.slice(end + 2);
+      inComment = false;
+    }
+    visible = visible.replace(/%%[\s\S]*?%%/g, "");
+    if (visible.includes("%%")) {
+      visible = visible.slice(0, visible.indexOf("%%"));
+      inComment = true;
+    }
+    // 引用和 callout、表格、分隔线不作为描述
+    if (
+      /^\s*[>|]/.test(visible) ||
+      /^\s*([-*_])(\s*\1){2,}\s*$/.test(visible)
+    ) {
+      continue;
+    }
+    const text = plainText(document, visible);
+    if (text) {
+      parts.push(text);
+    }
+  }
+
+  // 中日韩文字之间不加空格
+  let description = "";
+  for (const part of parts) {
+    description +=
+      description &&
+      !(cjkRegex.test(description.slice(-1)) && cjkRegex.test(part[0]))
+        ? " " + part
+        : part;
+  }
+  return truncateText(description, maxLength);
+}
+
+// 去掉一行 markdown 中的格式，只保留可读文字
+function plainText(document: MarkdownDocument, line: string): string {
+  const text = line
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, "")
+    .replace(/(^|\s)\^[A-Za-z0-9-]+\s*$/, "")
+    .replace(/!\[\[[^\]]*\]\]|!\[[^\]]*\]\([^)]*\)/g, "")
+    .replace(/\[\[([^\]|]*)\|([^\]]*)\]\]/g, "$2")
+    // 与 Obsidian 显示一致：[[Note#Heading]] 显示为 Note > Heading
+    .replace(/\[\[([^\]]*)\]\]/g, (_, target: string) =>
+      target
+        .split("#")
+        .map((part) => part.replace(/^\^/, ""))
+        .filter((part) => part)
+        .join(" > ")
+    )
+    .replace(/\[\^[^\]]+\]/g, "")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\[[^\]]*\]/g, "$1")
+    .replace(/(\*\*|__|~~|==)(.+?)\1/g, "$2")
+    .replace(/\*(\S(?:.*?\S)?)\*/g, "$1")
+    .replace(/(^|[^\p{L}\p{N}])_(\S(?:.*?\S)?)_(?![\p{L}\p{N}])/gu, "$1$2")
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~=<>])/g, "$1");
+  return restoreProtected(document, text, (fragment) => {
+    if (fragment.startsWith("`")) {
+      return fragment.replace(/^`+\s?|\s?`+$/g, "");
+    }
+    // 自动链接保留地址，其余 HTML 和短代码去掉
+    const autolink = fragment.match(/^<([A-Za-z][\w+.-]*:[^\s<>]*)>$/);
+    if (autolink) {
+      return autolink[1];
+    }
+    return /^(?:<|\{\{)/.test(fragment) ? "" : fragment;
+  })
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Shorten `text` to at most `maxLength` characters, cutting at a space or
+ * between CJK characters rather than inside a word, and end it with "…".
+ */
+export function truncateText(text: string, maxLength: number): string {
+  const chars = Array.from(text);
+  if (maxLength <= 0 || chars.length <= maxLength) {
+    return text;
+  }
+  // 为省略号留出一个字符
+  let end = maxLength - 1;
+  const isBoundary = (index: number) =>
+    /\s/.test(chars[index]) ||
+    /\s/.test(chars[index - 1]) ||
+    cjkRegex.test(chars[index]) ||
+    cjkRegex.test(chars[index - 1]);
+  while (end > 0 && !isBoundary(end)) {
+    end--;
+  }
+  // 整段只有一个很长的单词时直接截断
+  if (end === 0) {
+    end = maxLength - 1;
+  }
+  return (
+    chars
+      .slice(0, end)
+      .join("")
+      .replace(/[\s,.;:!?，。；：！？、]+$/u, "") + "…"
+  );
+}
@@ -0,0 +1,95 @@
+import { App, Modal, Setting } from "obsidian";
+import { diffLines } from "./diff";
+import { LanguageStrings } from "./lang";
+import type { PreparedOutput } from "./converter";
+
+/**
+ * Dry-run preview of a sync: the generated Hugo file, a diff against the
+ * file on disk and the images that would be copied.
+ */
+export class PreviewModal extends Modal {
+  constructor(
+    app: App,
+    private lang: LanguageStrings,
+    private prepared: PreparedOutput,
+    private existing: string,
+    private onConfirm: () => void | Promise<void>
+  ) {
+    super(app);
+  }
+
+  onOpen() {
+    const { contentEl, titleEl, modalEl } = this;
+    const strings = this.lang.notices;
+    modalEl.addClass("hugo-sync-preview-modal");
+    titleEl.setText(strings.previewTitle);
+    contentEl.createEl("p", {
+      text: this.prepared.hugoFilePath,
+      cls: "hugo-sync-preview-path",
+    });
+    if (this.prepared.secrets.length > 0) {
+      contentEl.createEl("p", {
+        text: `${strings.secretWarning}: ${this.prepared.secrets.join(", ")}`,
+        cls: "hugo-sync-warning",
+      });
+    }
+
+    contentEl.createEl("h4", { text: strings.previewOutput });
+    contentEl.createEl("pre", {
+      text: this.prepared.hugoContent,
+      cls: "hugo-sync-preview-code",
+    });
+
+    contentEl.createEl("h4", { text: strings.previewDiff });
+    if (!this.existing) {
+      contentEl.createEl("p", { text: strings.previewNewFile });
+    } else if (this.existing === this.prepared.hugoContent) {
+      contentEl.createEl("p", { text: strings.previewNoChanges });
+    } else {
+      const diffEl = contentEl.createEl("pre", {
+        cls: "hugo-sync-preview-code",
+      });
+      for (const line of diffLines(this.existing, this.prepared.hugoContent)) {
+        const prefix = { same: "  ", added: "+ ", removed: "- " }[line.type];
+        diffEl.createDiv({
+          text: prefix + line.text,
+          cls: `hugo-sync-diff-${line.type}`,
+        });
+      }
+    }
+
+    contentEl.createEl("h4", { text: strings.previewImages });
+    if (this.prepared.imageList.length === 0) {
+      contentEl.createEl("p", { text: strings.previewNoImages });
+    } else {
+      const listEl = contentEl.createEl("ul", {
+        cls: "hugo-sync-confirm-list",
+      });
+      for (const image of this.prepared.imageList) {
+        listEl.createEl("li", {
+          text: `${image.originalPath} → ${image.newPath}`,
+        });
+      }
+    }
+
+    new Setting(contentEl)
+      .addButton((button) =>
+        button.setButtonText(strings.cancel).onClick(() => {
+          this.close();
+        })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText(strings.previewConfirm)
+          .setCta()
+          .onClick(async () => {
+            this.close();
+            await this.onConfirm();
+          })
+      );
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+}
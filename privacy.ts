@@ -0,0 +1,221 @@
+import { MarkdownBlock, MarkdownDocument, restoreProtected } from "./markdown";
+
+// 正则替换：pattern 为正则表达式（可写成 /.../i），匹配的文字替换为 replacement
+export interface Redaction {
+  pattern: string;
+  replacement: string;
+}
+
+export interface PrivacyOptions {
+  // 删除 Obsidian 注释 %%…%%（行内或跨行）
+  stripComments: boolean;
+  // 删除 <!-- private --> 与 <!-- /private --> 之间的内容
+  privateMarkers: boolean;
+  // 带有此标签的标题及其下的内容不发布，为空时不启用
+  privateTag: string;
+  redactions: Redaction[];
+  // 输出中仍然匹配这些正则时在同步结果中警告
+  secretPatterns: string[];
+}
+
+const privateStartRegex = /^\s*<!--\s*private\s*-->\s*$/i;
+const privateEndRegex = /^\s*<!--\s*\/private\s*-->\s*$/i;
+
+/**
+ * Compile a user pattern: `/source/flags` or a bare regular expression
+ * source. Invalid patterns yield undefined.
+ */
+export function compilePattern(
+  pattern: string,
+  extraFlags = ""
+): RegExp | undefined {
+  const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  const source = match ? match[1] : pattern;
+  const flags = Array.from(new Set((match ? match[2] : "") + extraFlags));
+  try {
+    return new RegExp(source, flags.join(""));
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Remove `%% comments %%`. A comment may span several lines and blocks;
+ * code and math blocks inside a comment are removed with it, `%%` inside
+ * them does not open a comment.
+ */
+export function stripComments(document: MarkdownDocument): MarkdownDocument {
+  let inComment = false;
+  const blocks: MarkdownBlock[] = [];
+  for (const block of document.blocks) {
+    if (block.type !== "text" && block.type !== "heading") {
+      if (!inComment) {
+        pushBlock(blocks, block);
+      }
+      continue;
+    }
+    const lines: string[] = [];
+    for (const line of block.lines) {
+      let visible = "";
+      let rest = line;
+      let touched = inComment;
+      while (rest) {
+        const index = rest.indexOf("%%");
+        const end = index === -1 ? rest.length : index;
+        if (!inComment) {
+          // 注释两侧的空白只保留一个
+          const segment = rest.slice(0, end);
+          visible += /\s$/.test(visible)
+            ? segment.replace(/^\s+/, "")
+            : segment;
+        }
+        if (index === -1) {
+          break;
+        }
+        touched = true;
+        inComment = !inComment;
+        rest = rest.slice(index + 2);
+      }
+      // 只有注释的行整行删除
+      if (!touched) {
+        lines.push(line);
+      } else if (visible.trim()) {
+        lines.push(visible.replace(/[ \t]+$/, ""));
+      }
+    }
+    if (lines.length > 0) {
+      pushBlock(blocks, { ...block, lines });
+    }
+  }
+  return { ...document, blocks };
+}
+
+/**
+ * Remove everything between `<!-- private -->` and `<!-- /private -->`
+ * lines, markers included. An unclosed marker hides the rest of the note.
+ */
+export function removePrivateBlocks(
+  document: MarkdownDocument
+): MarkdownDocument {
+  let hidden = false;
+  const blocks: MarkdownBlock[] = [];
+  for (const block of document.blocks) {
+    // 标记是单独一行的 HTML 注释；在段落中时被解析为占位符
+    if (block.type !== "html" && block.type !== "text") {
+      if (!hidden) {
+        pushBlock(blocks, block);
+      }
+      continue;
+    }
+    const lines: string[] = [];
+    for (const line of block.lines) {
+      const text =
+        block.type === "html" ? line : restoreProtected(document, line);
+      if (!hidden && privateStartRegex.test(text)) {
+        hidden = true;
+      } else if (hidden && privateEndRegex.test(text)) {
+        hidden = false;
+      } else if (!hidden) {
+        lines.push(line);
+      }
+    }
+    if (lines.length > 0) {
+      pushBlock(blocks, { ...block, lines });
+    }
+  }
+  return { ...document, blocks };
+}
+
+// 删除内容后两侧的空行会相邻，只保留一组
+function pushBlock(blocks: MarkdownBlock[], block: MarkdownBlock) {
+  const last = blocks[blocks.length - 1];
+  if (block.type === "blank" && last?.type === "blank") {
+    return;
+  }
+  blocks.push(block);
+}
+
+/**
+ * True when a heading carries the private tag, e.g. `## Notes #private`.
+ */
+export function hasPrivateTag(heading: string, tag: string): boolean {
+  const value = tag.replace(/^#/, "").trim();
+  if (!value) {
+    return false;
+  }
+  const escaped = value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|\\s)#${escaped}(?![\\p{L}\\p{N}_/-])`, "iu").test(
+    heading
+  );
+}
+
+/**
+ * Apply the redactions to the generated text.
+ */
+export function redact(text: string, redactions: Redaction[]): string {
+  let result = text;
+  for (const redaction of redactions) {
+    const regex = compilePattern(redaction.pattern, "g");
+    if (regex) {
+      result = result.replace(regex, redaction.replacement);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply the redactions to every string in a front matter value, including
+ * strings nested in lists and maps. Other values are returned unchanged.
+ */
+export function redactValue(value: unknown, redactions: Redaction[]): unknown {
+  if (typeof value === "string") {
+    return redact(value, redactions);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, redactions));
+  }
+  if (value && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(value as Record<string, unknown>)) {
+      result[key] = redactValue(
+        (value as Record<string, unknown>)[key],
+        redactions
+      );
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * The secret patterns that still match the output.
+ */
+export function findSecrets(text: string, patterns: string[]): string[] {
+  return patterns.filter((pattern) => compilePattern(pattern)?.test(text));
+}
+
+/**
+ * Parse the redactions text area: one `pattern -> replacement` per line. A
+ * line without `->` replaces matches with `[redacted]`.
+ */
+export function parseRedactions(value: string): Redaction[] {
+  const redactions: Redaction[] = [];
+  for (const line of value.split("\n")) {
+    const separator = line.lastIndexOf(" -> ");
+    const pattern = (separator === -1 ? line : line.slice(0, separator)).trim();
+    if (pattern) {
+      redactions.push({
+        pattern,
+        replacement:
+          separator === -1 ? "[redacted]" : line.slice(separator + 4).trim(),
+      });
+    }
+  }
+  return redactions;
+}
+
+export function formatRedactions(redactions: Redaction[]): string {
+  return redactions
+    .map((redaction) => `${redaction.pattern} -> ${redaction.replacement}`)
+    .join("\n");
+}
@@ -0,0 +1,78 @@
+export interface PublishRules {
+  // frontmatter 中的发布标记，例如 publish: true；留空则不要求标记
+  publishFlag: string;
+  // 只发布这些文件夹中的笔记，留空表示整个仓库
+  includeFolders: string[];
+  excludeFolders: string[];
+  // 笔记至少需要包含其中一个标签，留空表示不限制
+  requiredTags: string[];
+}
+
+/**
+ * Decide whether a note should be published according to the configured
+ * rules. `tags` may contain the leading `#` as returned by `getAllTags`.
+ */
+export function isPublishable(
+  filePath: string,
+  frontMatter: Record<string, unknown> | undefined,
+  tags: string[],
+  rules: PublishRules
+): boolean {
+  if (
+    rules.includeFolders.length > 0 &&
+    !rules.includeFolders.some((folder) => isInFolder(filePath, folder))
+  ) {
+    return false;
+  }
+  if (isExcluded(filePath, frontMatter, rules)) {
+    return false;
+  }
+
+  if (rules.publishFlag) {
+    const flag = frontMatter?.[rules.publishFlag];
+    if (flag !== true && flag !== "true") {
+      return false;
+    }
+  }
+
+  if (
+    rules.requiredTags.length > 0 &&
+    !rules.requiredTags.some((required) => hasTag(tags, required))
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * A note is explicitly excluded when it sits in an excluded folder or its
+ * publish flag is set to false. Such notes are pruned from Hugo.
+ */
+export function isExcluded(
+  filePath: string,
+  frontMatter: Record<string, unknown> | undefined,
+  rules: PublishRules
+): boolean {
+  if (rules.excludeFolders.some((folder) => isInFolder(filePath, folder))) {
+    return true;
+  }
+  if (rules.publishFlag) {
+    const flag = frontMatter?.[rules.publishFlag];
+    return flag === false || flag === "false";
+  }
+  return false;
+}
+
+export function isInFolder(filePath: string, folder: string): boolean {
+  const normalized = folder.replace(/^\/+|\/+$/g, "");
+  return normalized === "" || filePath.startsWith(normalized + "/");
+}
+
+export function hasTag(tags: string[], tag: string): boolean {
+  const wanted = tag.replace(/^#/, "").toLowerCase();
+  // 嵌套标签 #blog/rust 同样满足 blog
+  return tags
+    .map((noteTag) => noteTag.replace(/^#/, "").toLowerCase())
+    .some((noteTag) => noteTag === wanted || noteTag.startsWith(wanted + "/"));
+}
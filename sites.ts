@@ -0,0 +1,193 @@
+import * as path from "path";
+import { FrontMatterFormat } from "./frontmatter";
+import { hasTag, isInFolder } from "./publishRules";
+
+export type MultilingualMode = "none" | "filename" | "directory";
+
+export interface SiteProfile {
+  name: string;
+  hugoPath: string;
+  // 默认 section 的内容目录，相对于 hugoPath，例如 content/posts
+  contentPath: string;
+  staticPath: string;
+  // image to static 配置项，启用后markdown会默认将图片保存在static文件夹下
+  // 关闭时，将会以markdown 文件名新建文件夹，原markdown 重命名为 index.md，
+  // 图片保存在同目录 images 文件夹下
+  imageToStatic: boolean;
+  // 输出的 front matter 格式及模板，frontMatterPreset 记录最近选择的主题预设
+  frontMatterFormat: FrontMatterFormat;
+  frontMatterPreset: string;
+  frontMatterTemplate: string;
+  useFirstImageAsCover: boolean;
+  authorName: string;
+  // 多语言输出：filename 为同一页面包中的 index.<lang>.md，
+  // directory 为 content/<lang>/ 下的独立目录；没有 lang 的笔记使用 defaultLanguage
+  multilingualMode: MultilingualMode;
+  defaultLanguage: string;
+  // 同步后显示 hugoPath 所在 git 仓库的状态并提交改动，gitRemote 非空时可推送
+  gitEnabled: boolean;
+  gitRemote: string;
+  // 每批同步结束后在 hugoPath 中依次执行的 shell 命令，例如 hugo --minify
+  postSyncHooks: string[];
+}
+
+export type RoutingRuleType = "folder" | "tag";
+
+export interface RoutingRule {
+  type: RoutingRuleType;
+  value: string;
+  // 目标站点名称，留空表示默认站点
+  site: string;
+  // content 下的 section，例如 til；留空则使用站点的 contentPath
+  section: string;
+}
+
+export interface SiteRoute {
+  site: SiteProfile;
+  // 笔记输出的内容目录，相对于 hugoPath
+  contentPath: string;
+  // 启用多语言输出时笔记的语言
+  lang?: string;
+}
+
+/**
+ * Create a site profile, taking known keys from `values`. Settings saved by
+ * older versions keep these keys at the top level and are migrated this way.
+ */
+export function createSiteProfile(
+  name: string,
+  values: Partial<SiteProfile> = {}
+): SiteProfile {
+  return {
+    name,
+    hugoPath: values.hugoPath ?? "",
+    contentPath: values.contentPath ?? "content/posts",
+    staticPath: values.staticPath ?? "static",
+    imageToStatic: values.imageToStatic ?? false,
+    frontMatterFormat: values.frontMatterFormat ?? "yaml",
+    frontMatterPreset: values.frontMatterPreset ?? "none",
+    frontMatterTemplate: values.frontMatterTemplate ?? "",
+    useFirstImageAsCover: values.useFirstImageAsCover ?? false,
+    authorName: values.authorName ?? "",
+    multilingualMode: values.multilingualMode ?? "none",
+    defaultLanguage: values.defaultLanguage ?? "en",
+    gitEnabled: values.gitEnabled ?? false,
+    gitRemote: values.gitRemote ?? "",
+    postSyncHooks: values.postSyncHooks ?? [],
+  };
+}
+
+// Hugo 的 content 根目录，取 contentPath 的第一级目录（通常为 content）
+export function siteContentRoot(site: SiteProfile): string {
+  return site.contentPath.split(/[\\/]/)[0];
+}
+
+/**
+ * Pick the site and section for a note. The first matching routing rule
+ * applies; `hugo_site` and `section` keys in the note's frontmatter take
+ * precedence over the rules. The first site is the default.
+ */
+export function resolveRoute(
+  filePath: string,
+  frontMatter: Record<string, unknown> | undefined,
+  tags: string[],
+  sites: SiteProfile[],
+  rules: RoutingRule[]
+): SiteRoute {
+  let siteName = sites[0].name;
+  let section = "";
+  const rule = rules.find((rule) =>
+    rule.type === "folder"
+      ? isInFolder(filePath, rule.value)
+      : hasTag(tags, rule.value)
+  );
+  if (rule) {
+    siteName = rule.site || siteName;
+    section = rule.section;
+  }
+
+  const siteKey = frontMatter?.hugo_site;
+  if (typeof siteKey === "string" && siteKey.trim()) {
+    // 换到其他站点时不再沿用规则中的 section
+    if (siteKey.trim() !== siteName) {
+      section = "";
+    }
+    siteName = siteKey.trim();
+  }
+  const sectionKey = frontMatter?.section;
+  if (typeof sectionKey === "string" && sectionKey.trim()) {
+    section = sectionKey.trim();
+  }
+
+  const site = sites.find((site) => site.name === siteName);
+  if (!site) {
+    throw new Error(`Unknown Hugo site "${siteName}"`);
+  }
+  // section 以 / 开头时同样相对于 content 根目录
+  section = section.replace(/^[\\/]+/, "");
+  if (/^[A-Za-z]:/.test(section) || section.split(/[\\/]/).includes("..")) {
+    throw new Error(
+      `Invalid section "${section}" outside the content directory`
+    );
+  }
+  return {
+    site,
+    contentPath: section
+      ? path.posix.join(siteContentRoot(site), section)
+      : site.contentPath,
+  };
+}
+
+/**
+ * Apply a note's language to its route. In directory mode the language
+ * directory is inserted below the content root: content/posts becomes
+ * content/<lang>/posts.
+ */
+export function localizeRoute(route: SiteRoute, lang: string): SiteRoute {
+  if (route.site.multilingualMode === "none") {
+    return route;
+  }
+  // 语言代码会用作目录名和文件名的一部分
+  if (/[\\/:]/.test(lang) || lang === "." || lang === "..") {
+    throw new Error(`Invalid language "${lang}"`);
+  }
+  if (route.site.multilingualMode === "directory") {
+    const root = siteContentRoot(route.site);
+    const rest = path.posix.relative(root, route.contentPath);
+    return { ...route, lang, contentPath: path.posix.join(root, lang, rest) };
+  }
+  return { ...route, lang };
+}
+
+/**
+ * Parse the routing rules text area: one `folder: Notes/TIL -> blog/til` or
+ * `tag: docs -> docs` rule per line, where the target is `site/section`.
+ */
+export function parseRoutingRules(value: string): RoutingRule[] {
+  const rules: RoutingRule[] = [];
+  for (const line of value.split("\n")) {
+    const match = line
+      .trim()
+      .match(/^(folder|tag)\s*:\s*(.+?)\s*->\s*([^/\s]*)(?:\/(\S*))?$/);
+    if (match) {
+      rules.push({
+        type: match[1] as RoutingRuleType,
+        value: match[2],
+        site: match[3],
+        section: (match[4] || "").replace(/\/+$/, ""),
+      });
+    }
+  }
+  return rules;
+}
+
+export function formatRoutingRules(rules: RoutingRule[]): string {
+  return rules
+    .map(
+      (rule) =>
+        `${rule.type}: ${rule.value} -> ${rule.site}${
+          rule.section ? "/" + rule.section : ""
+        }`
+    )
+    .join("\n");
+}
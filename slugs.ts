@@ -0,0 +1,148 @@
+import { hashContent } from "./syncManifest";
+
+export type SlugStrategy = "original" | "kebab" | "transliterate" | "date";
+
+// 无法通过去除变音符号转换的字母
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: "ss",
+  æ: "ae",
+  œ: "oe",
+  ø: "o",
+  đ: "d",
+  ð: "d",
+  ł: "l",
+  þ: "th",
+  ı: "i",
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ґ: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  є: "ye",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  і: "i",
+  ї: "yi",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  α: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  ζ: "z",
+  η: "i",
+  θ: "th",
+  ι: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+};
+
+/**
+ * Build the slug used as the page bundle folder or file name of a note.
+ * `date` is only used by the date-prefixed strategy. Apart from `original`
+ * every strategy yields ASCII: characters that cannot be transliterated
+ * (e.g. CJK) are dropped, and the transliterate strategy appends a short
+ * hash of the title for them. When nothing else is left the slug is that
+ * hash alone.
+ */
+export function makeSlug(
+  title: string,
+  strategy: SlugStrategy,
+  date: string
+): string {
+  switch (strategy) {
+    case "kebab":
+      return kebabCase(title) || titleHash(title);
+    case "transliterate":
+      return transliterate(title);
+    case "date":
+      return [date.slice(0, 10), kebabCase(title) || titleHash(title)].join(
+        "-"
+      );
+    default:
+      return cleanSlug(title);
+  }
+}
+
+/**
+ * Make a slug unique by appending a short hash of `key` (the note path),
+ * for notes whose generated slug is already used by another note.
+ */
+export function disambiguateSlug(slug: string, key: string): string {
+  return `${slug}-${hashContent(key).slice(0, 8)}`;
+}
+
+// 去除文件系统和 URL 中不允许的字符
+export function cleanSlug(value: string): string {
+  return value
+    .replace(/[\\/:*?"<>|#%]+/g, "-")
+    .replace(/^[\s.-]+|[\s.-]+$/g, "");
+}
+
+function kebabCase(value: string): string {
+  return toLatin(value)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// 无法音译的字符用标题的哈希代替，只有这些字符不同的标题也不会得到相同的 slug
+function transliterate(value: string): string {
+  const slug = kebabCase(value);
+  if (!/(?![\x00-\x7f])[\p{L}\p{N}]/u.test(toLatin(value))) {
+    return slug;
+  }
+  return [slug, titleHash(value)].filter((part) => part).join("-");
+}
+
+function titleHash(value: string): string {
+  return hashContent(value.trim()).slice(0, 8);
+}
+
+function toLatin(value: string): string {
+  return Array.from(value)
+    .map((char) => TRANSLITERATIONS[char.toLowerCase()] ?? char)
+    .join("")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+}
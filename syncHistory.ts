@@ -0,0 +1,125 @@
+import { DataAdapter } from "obsidian";
+import type { PreparedOutput } from "./converter";
+import { SyncStatus } from "./syncManifest";
+
+// 历史中最多保留的同步次数
+const MAX_RUNS = 50;
+
+export type FileSyncStatus = SyncStatus | "failed";
+
+// 同步的触发方式：手动（命令、菜单、重试）或监听模式
+export type SyncTrigger = "manual" | "watch";
+
+export interface FileSyncResult {
+  // 笔记在 vault 中的路径
+  path: string;
+  status: FileSyncStatus;
+  site?: string;
+  // 输出文件路径，相对于站点的 Hugo 项目根目录
+  outputPath?: string;
+  // 本次拷贝到 Hugo 中的图片，相对于 Hugo 项目根目录
+  images: string[];
+  // 失败时的错误信息和调用栈
+  error?: string;
+  stack?: string;
+  // 输出中仍然匹配的 secretPatterns
+  secrets?: string[];
+}
+
+export interface SyncRun {
+  // 开始时间（ISO 格式）
+  time: string;
+  trigger: SyncTrigger;
+  results: FileSyncResult[];
+}
+
+/**
+ * Result of one note in a sync run.
+ */
+export function fileSyncResult(prepared: PreparedOutput): FileSyncResult {
+  const written = prepared.status !== "skipped";
+  return {
+    path: prepared.file.path,
+    status: prepared.status,
+    site: prepared.entry.site,
+    outputPath: prepared.entry.outputPath,
+    images: written ? prepared.entry.images : [],
+    secrets: prepared.secrets.length > 0 ? prepared.secrets : undefined,
+  };
+}
+
+export function failedSyncResult(path: string, error: Error): FileSyncResult {
+  return {
+    path,
+    status: "failed",
+    images: [],
+    error: error.message,
+    stack: error.stack,
+  };
+}
+
+/**
+ * Persisted list of the latest sync runs, newest first, shown in the sync
+ * history panel.
+ */
+export class SyncHistory {
+  runs: SyncRun[] = [];
+  private listeners: Set<() => void> = new Set();
+
+  // 与同步清单一样只用到 DataAdapter 的读写方法
+  constructor(
+    private adapter: Pick<DataAdapter, "exists" | "read" | "write">,
+    private filePath: string
+  ) {}
+
+  async load() {
+    if (!(await this.adapter.exists(this.filePath))) {
+      this.runs = [];
+      return;
+    }
+    try {
+      const data = JSON.parse(await this.adapter.read(this.filePath));
+      this.runs = data.runs || [];
+    } catch (error) {
+      console.error("Failed to load sync history:", error);
+      this.runs = [];
+    }
+    this.notify();
+  }
+
+  async save() {
+    await this.adapter.write(
+      this.filePath,
+      JSON.stringify({ version: 1, runs: this.runs }, null, 2)
+    );
+  }
+
+  // 记录一次同步并保存，没有处理任何笔记的同步不记录
+  async add(run: SyncRun) {
+    if (run.results.length === 0) {
+      return;
+    }
+    this.runs.unshift(run);
+    this.runs.splice(MAX_RUNS);
+    this.notify();
+    await this.save();
+  }
+
+  async clear() {
+    this.runs = [];
+    this.notify();
+    await this.save();
+  }
+
+  // 返回取消监听的函数
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  notify() {
+    for (const listener of Array.from(this.listeners)) {
+      listener();
+    }
+  }
+}
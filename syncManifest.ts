@@ -0,0 +1,88 @@
+import { DataAdapter } from "obsidian";
+import { createHash } from "crypto";
+
+export type SyncStatus = "created" | "updated" | "skipped";
+
+export interface SyncManifestEntry {
+  // 输出所在的站点名称，旧版本的条目没有记录，视为默认站点
+  site?: string;
+  // 输出文件路径，相对于 Hugo 项目根目录
+  outputPath: string;
+  // 转换结果（不含 lastmod）的哈希，用于跳过未变化的笔记
+  hash: string;
+  // 首次发布时间，之后的同步保持不变
+  date: string;
+  // 最近一次同步的时间，输出没有变化而跳过写入时同样更新
+  lastSync: string;
+  // 转换结果最近一次发生变化的时间
+  lastmod?: string;
+  // 页面的站内 URL，重命名时作为 alias 保留
+  url: string;
+  // 拷贝到 Hugo 中的图片，相对于 Hugo 项目根目录
+  images: string[];
+  // 图片路径对应的源文件内容哈希，用于检测同名冲突
+  imageHashes?: Record<string, string>;
+  // 之前使用过的 URL，作为 Hugo aliases 保留
+  aliases?: string[];
+  // 首次发布时确定的 slug，重命名笔记时保持不变
+  slug?: string;
+}
+
+/**
+ * Persisted record of every note the plugin has written into the Hugo tree,
+ * keyed by vault path.
+ */
+export class SyncManifest {
+  entries: Record<string, SyncManifestEntry> = {};
+  // 已处理（缩放 / 转换为 WebP）图片的缓存，键为源文件哈希加处理参数，值为输出哈希
+  imageCache: Record<string, string> = {};
+
+  // 只用到 DataAdapter 的读写方法，CLI 中可以传入基于 fs 的实现
+  constructor(
+    private adapter: Pick<DataAdapter, "exists" | "read" | "write">,
+    private filePath: string
+  ) {}
+
+  async load() {
+    if (!(await this.adapter.exists(this.filePath))) {
+      this.entries = {};
+      return;
+    }
+    try {
+      const data = JSON.parse(await this.adapter.read(this.filePath));
+      this.entries = data.entries || {};
+      this.imageCache = data.imageCache || {};
+    } catch (error) {
+      console.error("Failed to load sync manifest:", error);
+      this.entries = {};
+      this.imageCache = {};
+    }
+  }
+
+  async save() {
+    await this.adapter.write(
+      this.filePath,
+      JSON.stringify(
+        { version: 1, entries: this.entries, imageCache: this.imageCache },
+        null,
+        2
+      )
+    );
+  }
+
+  get(vaultPath: string): SyncManifestEntry | undefined {
+    return this.entries[vaultPath];
+  }
+
+  set(vaultPath: string, entry: SyncManifestEntry) {
+    this.entries[vaultPath] = entry;
+  }
+
+  delete(vaultPath: string) {
+    delete this.entries[vaultPath];
+  }
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
@@ -0,0 +1,118 @@
+// 嵌套标签（#lang/rust）的输出方式：keep 原样保留，leaf 只保留最后一级，
+// split 拆成每一级各自的标签
+export type NestedTagMode = "keep" | "leaf" | "split";
+
+// 以 prefix/ 开头的标签映射到其他 taxonomy，例如 cat/x -> categories: [x]
+export interface TaxonomyRule {
+  prefix: string;
+  taxonomy: string;
+}
+
+export interface TaxonomyOptions {
+  taxonomyRules: TaxonomyRule[];
+  // 标签重命名表，键为小写的原标签
+  tagAliases: Record<string, string>;
+  // 只在 vault 中使用的标签，同时排除其子标签
+  excludedTags: string[];
+  lowercaseTags: boolean;
+  nestedTagMode: NestedTagMode;
+  // 正文中的内联标签保留在文字中，不再移除
+  keepInlineTags: boolean;
+}
+
+export function isExcludedTag(tag: string, excludedTags: string[]): boolean {
+  const lower = tag.replace(/^#/, "").toLowerCase();
+  return excludedTags.some((excluded) => {
+    const value = excluded.replace(/^#/, "").toLowerCase();
+    return lower === value || lower.startsWith(value + "/");
+  });
+}
+
+/**
+ * Sort a note's tags into Hugo taxonomies. Each tag is renamed through the
+ * alias table, dropped if excluded, and then either moved to the taxonomy
+ * of the first matching prefix rule or kept as a tag. The result always
+ * has a `tags` entry.
+ */
+export function mapTaxonomies(
+  tags: string[],
+  options: TaxonomyOptions
+): Record<string, string[]> {
+  const taxonomies: Record<string, string[]> = { tags: [] };
+  const add = (taxonomy: string, term: string) => {
+    const value = options.lowercaseTags ? term.toLowerCase() : term;
+    const terms = (taxonomies[taxonomy] = taxonomies[taxonomy] || []);
+    if (value && !terms.includes(value)) {
+      terms.push(value);
+    }
+  };
+
+  for (const rawTag of tags) {
+    const original = rawTag.replace(/^#/, "");
+    if (isExcludedTag(original, options.excludedTags)) {
+      continue;
+    }
+    const tag = options.tagAliases[original.toLowerCase()] ?? original;
+    if (!tag || isExcludedTag(tag, options.excludedTags)) {
+      continue;
+    }
+
+    const rule = options.taxonomyRules.find((rule) =>
+      tag.toLowerCase().startsWith(rule.prefix.toLowerCase() + "/")
+    );
+    if (rule) {
+      add(rule.taxonomy, tag.slice(rule.prefix.length + 1));
+      continue;
+    }
+
+    const parts = tag.split("/").filter((part) => part);
+    if (options.nestedTagMode === "leaf") {
+      add("tags", parts[parts.length - 1] || "");
+    } else if (options.nestedTagMode === "split") {
+      parts.forEach((part) => add("tags", part));
+    } else {
+      add("tags", tag);
+    }
+  }
+  return taxonomies;
+}
+
+/**
+ * Parse the taxonomy rules text area: one `cat -> categories` rule per
+ * line, mapping tags below `cat/` to the `categories` taxonomy.
+ */
+export function parseTaxonomyRules(value: string): TaxonomyRule[] {
+  const rules: TaxonomyRule[] = [];
+  for (const line of value.split("\n")) {
+    const match = line.trim().match(/^#?(.+?)\/?\s*->\s*(\S+)$/);
+    if (match) {
+      rules.push({ prefix: match[1].trim(), taxonomy: match[2] });
+    }
+  }
+  return rules;
+}
+
+export function formatTaxonomyRules(rules: TaxonomyRule[]): string {
+  return rules.map((rule) => `${rule.prefix} -> ${rule.taxonomy}`).join("\n");
+}
+
+/**
+ * Parse the tag alias text area: one `js -> javascript` rename per line.
+ * Source tags match regardless of case; an empty target drops the tag.
+ */
+export function parseTagAliases(value: string): Record<string, string> {
+  const aliases: Record<string, string> = {};
+  for (const line of value.split("\n")) {
+    const match = line.trim().match(/^#?(.+?)\s*->\s*#?(\S*)$/);
+    if (match) {
+      aliases[match[1].toLowerCase()] = match[2];
+    }
+  }
+  return aliases;
+}
+
+export function formatTagAliases(aliases: Record<string, string>): string {
+  return Object.keys(aliases)
+    .map((tag) => `${tag} -> ${aliases[tag]}`)
+    .join("\n");
+}
@@ -0,0 +1,104 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import {
+  DEFAULT_CONVERTER_SETTINGS,
+  HugoConverter,
+  normalizeSettings,
+} from "../converter";
+import { NodeVault } from "../nodeVault";
+import { SyncManifest } from "../syncManifest";
+
+// 每个用例是 fixtures 下的一个目录：vault 为输入的笔记和附件，expected 为
+// 期望的 Hugo 输出，settings.json 为插件设置（hugoPath 由测试填写）。
+// 设置 UPDATE_FIXTURES=1 运行时用实际输出覆盖 expected
+const FIXTURES_DIR = path.resolve("tests", "fixtures");
+
+function listFiles(dir: string, prefix = ""): string[] {
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listFiles(path.join(dir, entry.name), relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
+
+async function convertFixture(fixtureDir: string, hugoPath: string) {
+  const settingsPath = path.join(fixtureDir, "settings.json");
+  const data = fs.existsSync(settingsPath)
+    ? JSON.parse(fs.readFileSync(settingsPath, "utf8"))
+    : {};
+  // 未配置发布规则时发布 vault 中的全部笔记
+  const settings = normalizeSettings(DEFAULT_CONVERTER_SETTINGS, {
+    publishFlag: "",
+    ...data,
+    hugoPath,
+  });
+
+  const stored: Record<string, string> = {};
+  const syncManifest = new SyncManifest(
+    {
+      exists: async (filePath) => filePath in stored,
+      read: async (filePath) => stored[filePath],
+      write: async (filePath, content) => {
+        stored[filePath] = content;
+      },
+    },
+    "sync-manifest.json"
+  );
+  const vault = new NodeVault(path.join(fixtureDir, "vault"));
+  const converter = new HugoConverter(
+    settings,
+    vault,
+    syncManifest,
+    path.join(hugoPath, "image-cache")
+  );
+
+  const notes = vault
+    .getMarkdownFiles()
+    .filter((file) => converter.isPublishableFile(file));
+  converter.syncBatch = new Set(notes.map((file) => file.path));
+  for (const note of notes) {
+    await converter.syncFileToHugo(note);
+  }
+}
+
+describe("converter fixtures", () => {
+  for (const name of fs.readdirSync(FIXTURES_DIR)) {
+    it(name, async () => {
+      const fixtureDir = path.join(FIXTURES_DIR, name);
+      const expectedDir = path.join(fixtureDir, "expected");
+      const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "hugo-sync-"));
+      try {
+        await convertFixture(fixtureDir, outputDir);
+        if (process.env.UPDATE_FIXTURES) {
+          fs.rmSync(expectedDir, { recursive: true, force: true });
+          fs.cpSync(outputDir, expectedDir, { recursive: true });
+        }
+
+        const files = listFiles(outputDir);
+        assert.deepEqual(files, listFiles(expectedDir));
+        for (const file of files) {
+          const actual = fs.readFileSync(path.join(outputDir, file));
+          const expected = fs.readFileSync(path.join(expectedDir, file));
+          if (file.endsWith(".md")) {
+            assert.equal(actual.toString("utf8"), expected.toString("utf8"));
+          } else {
+            assert.ok(actual.equals(expected), `${file} differs`);
+          }
+        }
+      } finally {
+        fs.rmSync(outputDir, { recursive: true, force: true });
+      }
+    });
+  }
+});
@@ -0,0 +1,110 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import { buildCommitMessage, GitRepository, processRunner } from "../gitSync";
+
+async function git(cwd: string, ...args: string[]): Promise<string> {
+  const result = await processRunner.run("git", args, cwd);
+  assert.equal(result.code, 0, result.stderr);
+  return result.stdout;
+}
+
+describe("buildCommitMessage", () => {
+  it("groups posts by change and drops duplicate updates", () => {
+    const message = buildCommitMessage([
+      { site: "blog", kind: "added", title: "New post", paths: [] },
+      { site: "blog", kind: "updated", title: "New post", paths: [] },
+      { site: "blog", kind: "updated", title: "Old post", paths: [] },
+      { site: "blog", kind: "updated", title: "Old post", paths: [] },
+      { site: "blog", kind: "removed", title: "Draft", paths: [] },
+    ]);
+    assert.equal(
+      message,
+      [
+        "Sync 3 posts from Obsidian",
+        "",
+        "Added:",
+        "- New post",
+        "",
+        "Updated:",
+        "- Old post",
+        "",
+        "Removed:",
+        "- Draft",
+      ].join("\n")
+    );
+  });
+});
+
+// Hugo 站点位于仓库的子目录中，推送到本地的 bare 仓库
+async function createRepository(root: string) {
+  const work = path.join(root, "work");
+  const site = path.join(work, "site");
+  fs.mkdirSync(path.join(site, "content", "posts"), { recursive: true });
+  await git(root, "init", "--bare", "remote.git");
+  await git(work, "init");
+  await git(work, "config", "user.name", "Test");
+  await git(work, "config", "user.email", "test@example.com");
+  await git(work, "remote", "add", "origin", path.join(root, "remote.git"));
+  fs.writeFileSync(path.join(site, "content", "posts", "old.md"), "old\n");
+  fs.writeFileSync(path.join(site, "config.toml"), "title = 'Test'\n");
+  await git(work, "add", "-A");
+  await git(work, "commit", "-m", "Initial commit");
+  return site;
+}
+
+describe("GitRepository", () => {
+  it("is undefined outside a repository", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "hugo-sync-git-"));
+    try {
+      assert.equal(await GitRepository.open(processRunner, root), undefined);
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it("commits only the given paths and pushes", async () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "hugo-sync-git-"));
+    try {
+      const site = await createRepository(root);
+      const repo = await GitRepository.open(processRunner, site);
+      assert.ok(repo);
+
+      const bundle = path.join(site, "content", "posts", "new [1]");
+      fs.mkdirSync(bundle);
+      fs.writeFileSync(path.join(bundle, "index.md"), "new\n");
+      fs.writeFileSync(path.join(bundle, "photo.png"), "png");
+      fs.rmSync(path.join(site, "content", "posts", "old.md"));
+      fs.writeFileSync(path.join(site, "config.toml"), "title = 'Changed'\n");
+
+      const entries = await repo.status([
+        "content/posts/new [1]",
+        "content/posts/old.md",
+      ]);
+      assert.deepEqual(entries, [
+        { code: " D", path: "site/content/posts/old.md" },
+        { code: "??", path: "site/content/posts/new [1]/index.md" },
+        { code: "??", path: "site/content/posts/new [1]/photo.png" },
+      ]);
+
+      await repo.commit(entries, "Sync 2 posts from Obsidian");
+      assert.deepEqual(await repo.status(["content/posts"]), []);
+      // 未同步的改动不会被提交
+      assert.deepEqual(await repo.status(["config.toml"]), [
+        { code: " M", path: "site/config.toml" },
+      ]);
+
+      await repo.push("origin");
+      assert.equal(
+        (
+          await git(path.join(root, "remote.git"), "log", "-1", "--format=%s")
+        ).trim(),
+        "Sync 2 posts from Obsidian"
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it } from "node:test";
+import type { OutputChange } from "../converter";
+import { processRunner } from "../gitSync";
+import { hookEnv, runPostSyncHooks } from "../hooks";
+import { createSiteProfile } from "../sites";
+
+const changes: OutputChange[] = [
+  {
+    site: "blog",
+    kind: "added",
+    title: "New",
+    paths: ["content/posts/new/index.md", "content/posts/new/a.png"],
+  },
+  {
+    site: "blog",
+    kind: "updated",
+    title: "Moved",
+    paths: ["content/posts/moved/index.md"],
+  },
+  {
+    site: "blog",
+    kind: "removed",
+    title: "Moved",
+    paths: ["content/posts/old"],
+  },
+  { site: "docs", kind: "added", title: "Guide", paths: ["content/guide.md"] },
+];
+
+describe("post-sync hooks", () => {
+  it("lists written and removed files in the environment", () => {
+    const site = createSiteProfile("blog", { hugoPath: "/srv/blog" });
+    const env = hookEnv(
+      site,
+      changes.filter((change) => change.site === "blog")
+    );
+    assert.deepEqual(env, {
+      HUGO_SYNC_SITE: "blog",
+      HUGO_SYNC_PATH: "/srv/blog",
+      HUGO_SYNC_FILES: [
+        "content/posts/new/index.md",
+        "content/posts/new/a.png",
+        "content/posts/moved/index.md",
+      ].join("\n"),
+      HUGO_SYNC_REMOVED: "content/posts/old",
+    });
+  });
+
+  it("runs the hooks of changed sites and stops at a failure", async () => {
+    const hugoPath = fs.mkdtempSync(path.join(os.tmpdir(), "hugo-sync-hooks-"));
+    try {
+      const blog = createSiteProfile("blog", {
+        hugoPath,
+        postSyncHooks: [
+          'printf "%s" "$HUGO_SYNC_FILES" > files.txt',
+          "echo broken >&2; exit 3",
+          "touch never.txt",
+        ],
+      });
+      // 没有改动的站点不运行钩子
+      const wiki = createSiteProfile("wiki", {
+        hugoPath,
+        postSyncHooks: ["touch wiki.txt"],
+      });
+
+      const results = await runPostSyncHooks(
+        processRunner,
+        [blog, wiki],
+        changes
+      );
+      assert.deepEqual(
+        results.map(({ site, code, output }) => ({ site, code, output })),
+        [
+          { site: "blog", code: 0, output: "" },
+          { site: "blog", code: 3, output: "broken\n" },
+        ]
+      );
+      assert.equal(
+        fs.readFileSync(path.join(hugoPath, "files.txt"), "utf8"),
+        hookEnv(blog, changes.slice(0, 3)).HUGO_SYNC_FILES
+      );
+      assert.deepEqual(fs.readdirSync(hugoPath), ["files.txt"]);
+    } finally {
+      fs.rmSync(hugoPath, { recursive: true, force: true });
+    }
+  });
+});
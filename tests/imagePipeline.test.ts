@@ -0,0 +1,20 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { processedExtension, shouldProcessImage } from "../imagePipeline";
+
+describe("image processing", () => {
+  it("names processed images after their output format", () => {
+    const resize = { imageMaxWidth: 800, convertToWebp: false };
+    const webp = { imageMaxWidth: 0, convertToWebp: true };
+    const none = { imageMaxWidth: 0, convertToWebp: false };
+
+    assert.equal(processedExtension("a/photo.JPG", resize), ".JPG");
+    assert.equal(processedExtension("a/photo.jpg", webp), ".webp");
+    // canvas 无法编码 BMP，缩放后保存为 PNG
+    assert.equal(processedExtension("scan.bmp", resize), ".png");
+    assert.equal(processedExtension("scan.bmp", webp), ".webp");
+    assert.equal(processedExtension("scan.bmp", none), ".bmp");
+    assert.equal(shouldProcessImage("anim.gif", resize), false);
+    assert.equal(processedExtension("anim.gif", webp), ".gif");
+  });
+});
@@ -0,0 +1,27 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { createSiteProfile, localizeRoute, resolveRoute } from "../sites";
+
+describe("site routing", () => {
+  const sites = [createSiteProfile("blog", { multilingualMode: "directory" })];
+
+  it("keeps frontmatter sections inside the content directory", () => {
+    const route = (section: string) =>
+      resolveRoute("Note.md", { section }, [], sites, []).contentPath;
+    assert.equal(route("til/rust"), "content/til/rust");
+    assert.equal(route("/til"), "content/til");
+    assert.throws(() => route("../../x"), /Invalid section/);
+    assert.throws(() => route("til/../../x"), /Invalid section/);
+    assert.throws(() => route("C:\\x"), /Invalid section/);
+  });
+
+  it("rejects language codes that are not a single path segment", () => {
+    const route = resolveRoute("Note.md", {}, [], sites, []);
+    assert.equal(
+      localizeRoute(route, "zh-cn").contentPath,
+      "content/zh-cn/posts"
+    );
+    assert.throws(() => localizeRoute(route, "../x"), /Invalid language/);
+    assert.throws(() => localizeRoute(route, ".."), /Invalid language/);
+  });
+});
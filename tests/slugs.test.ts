@@ -0,0 +1,44 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { disambiguateSlug, makeSlug } from "../slugs";
+
+describe("slug strategies", () => {
+  it("transliterates Latin, Cyrillic and Greek titles", () => {
+    assert.equal(makeSlug("Café Ünïcode!", "kebab", ""), "cafe-unicode");
+    assert.equal(makeSlug("Привет, мир", "transliterate", ""), "privet-mir");
+    assert.equal(
+      makeSlug("Straße — Notes", "transliterate", ""),
+      "strasse-notes"
+    );
+    assert.equal(
+      makeSlug("Hello World", "date", "2024-03-01T10:00:00Z"),
+      "2024-03-01-hello-world"
+    );
+  });
+
+  it("uses a stable ASCII hash for CJK titles", () => {
+    const slug = makeSlug("中文笔记", "transliterate", "");
+    assert.match(slug, /^[0-9a-f]{8}$/);
+    assert.equal(makeSlug("中文笔记", "kebab", ""), slug);
+    assert.equal(
+      makeSlug("中文笔记", "date", "2024-03-01"),
+      `2024-03-01-${slug}`
+    );
+    assert.notEqual(makeSlug("英文笔记", "transliterate", ""), slug);
+
+    // 只有部分字符无法音译时保留其余部分，并用哈希区分
+    const rust = makeSlug("Rust 入门", "transliterate", "");
+    assert.match(rust, /^rust-[0-9a-f]{8}$/);
+    assert.notEqual(makeSlug("Rust 进阶", "transliterate", ""), rust);
+    assert.equal(makeSlug("中文笔记", "original", ""), "中文笔记");
+  });
+
+  it("disambiguates kebab slugs that collide", () => {
+    // kebab-case 去掉中文后两个标题得到相同的 slug，由转换器发现冲突后加上路径哈希
+    const first = makeSlug("Rust 入门", "kebab", "");
+    assert.equal(makeSlug("Rust 进阶", "kebab", ""), first);
+    const second = disambiguateSlug(first, "notes/Rust 进阶.md");
+    assert.match(second, /^rust-[0-9a-f]{8}$/);
+    assert.notEqual(disambiguateSlug(first, "notes/Rust 入门.md"), second);
+  });
+});
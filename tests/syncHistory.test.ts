@@ -0,0 +1,49 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { failedSyncResult, SyncHistory } from "../syncHistory";
+
+function memoryAdapter() {
+  const stored: Record<string, string> = {};
+  return {
+    stored,
+    exists: async (filePath: string) => filePath in stored,
+    read: async (filePath: string) => stored[filePath],
+    write: async (filePath: string, content: string) => {
+      stored[filePath] = content;
+    },
+  };
+}
+
+describe("sync history", () => {
+  it("keeps the latest runs, newest first, across reloads", async () => {
+    const adapter = memoryAdapter();
+    const history = new SyncHistory(adapter, "sync-history.json");
+    await history.load();
+    let changes = 0;
+    history.onChange(() => changes++);
+
+    // 没有处理任何笔记的同步不记录
+    await history.add({ time: "t0", trigger: "watch", results: [] });
+    for (let i = 1; i <= 55; i++) {
+      await history.add({
+        time: `t${i}`,
+        trigger: "manual",
+        results: [failedSyncResult(`note${i}.md`, new Error(`broken ${i}`))],
+      });
+    }
+    assert.equal(changes, 55);
+
+    const reloaded = new SyncHistory(adapter, "sync-history.json");
+    await reloaded.load();
+    assert.equal(reloaded.runs.length, 50);
+    assert.equal(reloaded.runs[0].time, "t55");
+    assert.equal(reloaded.runs[49].time, "t6");
+    const [result] = reloaded.runs[0].results;
+    assert.equal(result.status, "failed");
+    assert.equal(result.error, "broken 55");
+    assert.match(result.stack || "", /^Error: broken 55\n/);
+
+    await reloaded.clear();
+    assert.deepEqual(JSON.parse(adapter.stored["sync-history.json"]).runs, []);
+  });
+});